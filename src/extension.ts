@@ -1,6 +1,27 @@
 import * as vscode from "vscode";
+import { restoreSettingsFromBackup } from "./lib/backups";
+import {
+	getTargetProfileName,
+	openProfileSettings,
+	refreshInheritanceExplorer,
+	registerInheritanceExplorer,
+} from "./lib/explorer";
+import { Logger } from "./lib/logger";
+import { registerPreviewProvider } from "./lib/preview";
+import { demoteSettingAtCursor, promoteSettingAtCursor } from "./lib/promotion";
+import { registerProvenanceProviders } from "./lib/provenance";
 import { Reporter } from "./lib/reporter";
-import { updateCurrentProfileInheritance } from "./profiles";
+import { registerSettingsSchema } from "./lib/settingsSchema";
+import {
+	runStartupSync,
+	watchParentProfiles,
+	watchProfileChanges,
+} from "./lib/triggers";
+import {
+	detachCurrentProfile,
+	previewCurrentProfileInheritance,
+	updateCurrentProfileInheritance,
+} from "./profiles";
 
 export async function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
@@ -10,13 +31,88 @@ export async function activate(context: vscode.ExtensionContext) {
 				await updateCurrentProfileInheritance(context);
 			},
 		),
+		vscode.commands.registerCommand(
+			"inherit-profile.previewInheritance",
+			async () => {
+				await previewCurrentProfileInheritance(context);
+			},
+		),
 		vscode.commands.registerCommand(
 			"inherit-profile.showReportHistory",
 			async () => {
 				await Reporter.showHistory(context);
 			},
 		),
+		vscode.commands.registerCommand(
+			"inherit-profile.compareReports",
+			async () => {
+				await Reporter.compareReports(context);
+			},
+		),
+		vscode.commands.registerCommand(
+			"inherit-profile.restoreSettingsBackup",
+			async () => {
+				await restoreSettingsFromBackup(context);
+			},
+		),
+		vscode.commands.registerCommand(
+			"inherit-profile.detachFromParents",
+			async () => {
+				await detachCurrentProfile(context);
+			},
+		),
+		vscode.commands.registerCommand(
+			"inherit-profile.promoteSetting",
+			async () => {
+				// Re-inherit the setting from its new location, if it was moved out
+				// of the current profile:
+				if (await promoteSettingAtCursor(context)) {
+					await updateCurrentProfileInheritance(context);
+				} else {
+					refreshInheritanceExplorer();
+				}
+			},
+		),
+		vscode.commands.registerCommand(
+			"inherit-profile.demoteSetting",
+			async () => {
+				await demoteSettingAtCursor(context);
+				refreshInheritanceExplorer();
+			},
+		),
+		vscode.commands.registerCommand(
+			"inherit-profile.openProfileSettings",
+			async (target?: unknown, key?: string) => {
+				await openProfileSettings(
+					context,
+					await getTargetProfileName(context, target),
+					key,
+				);
+			},
+		),
+		vscode.commands.registerCommand(
+			"inherit-profile.showLatestReport",
+			async (target?: unknown) => {
+				await Reporter.showLatest(
+					context,
+					await getTargetProfileName(context, target),
+				);
+			},
+		),
+		vscode.commands.registerCommand("inherit-profile.refreshExplorer", () => {
+			refreshInheritanceExplorer();
+		}),
 	);
+
+	Logger.initialize(context);
+	registerPreviewProvider(context);
+	registerSettingsSchema(context);
+	registerProvenanceProviders(context);
+	registerInheritanceExplorer(context);
+	const sync = () => updateCurrentProfileInheritance(context);
+	await watchProfileChanges(context, sync);
+	await watchParentProfiles(context, sync);
+	await runStartupSync(sync);
 }
 
 export function deactivate() {}
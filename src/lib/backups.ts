@@ -0,0 +1,271 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { Logger } from "./logger.js";
+import { showPreviewDiff } from "./preview.js";
+import { getCurrentProfileName, getProfileMap } from "./profileDiscovery.js";
+import {
+	deleteSettingsTracking,
+	readSettingsTracking,
+	type SettingsTracking,
+	writeSettingsTracking,
+} from "./settingsTracking.js";
+
+/**
+ * Gets the directory the `settings.json` backups of a profile are kept in.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ */
+function getBackupsUri(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): vscode.Uri {
+	return vscode.Uri.joinPath(
+		context.globalStorageUri,
+		"backups",
+		encodeURIComponent(profileName),
+	);
+}
+
+/**
+ * Gets the name of the file the settings tracking is kept in next to a
+ * `settings.json` backup.
+ * @param backupName Name of the backup file.
+ */
+function getTrackingBackupName(backupName: string): string {
+	return backupName.replace(/^settings_/, "tracking_");
+}
+
+/**
+ * Lists the `settings.json` backups of a profile, most recent first.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @returns Returns the backup file names, or [] if there are none.
+ */
+async function listBackups(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): Promise<string[]> {
+	try {
+		const files = await vscode.workspace.fs.readDirectory(
+			getBackupsUri(context, profileName),
+		);
+		// Filename format: settings_YYYY-MM-DD_HH-mm-ss-SSSZ.json, which is
+		// naturally sortable
+		return files
+			.filter(
+				([name, type]) =>
+					type === vscode.FileType.File &&
+					name.startsWith("settings_") &&
+					name.endsWith(".json"),
+			)
+			.map(([name]) => name)
+			.sort((a, b) => b.localeCompare(a));
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Keeps a timestamped copy of a profile's `settings.json` file before it is
+ * overwritten, along with the inherited settings tracked for it, and removes the
+ * oldest backups beyond the retention configured by
+ * `inheritProfile.settingsBackups`.
+ *
+ * Failing to back up the file is logged, but does not prevent the write.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param settingsPath Path to the `settings.json` file.
+ */
+export async function backupSettingsFile(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	settingsPath: string,
+): Promise<void> {
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	const retention = config.get<number>("settingsBackups", 10);
+	if (retention <= 0) {
+		return;
+	}
+
+	let content: Buffer;
+	try {
+		content = await fs.readFile(settingsPath);
+	} catch {
+		return; // Nothing to back up
+	}
+
+	try {
+		const backupsUri = getBackupsUri(context, profileName);
+		await vscode.workspace.fs.createDirectory(backupsUri);
+
+		const dateStr = new Date()
+			.toISOString()
+			.replace(/[:.]/g, "-")
+			.split("T")
+			.join("_");
+		const backupName = `settings_${dateStr}.json`;
+		await vscode.workspace.fs.writeFile(
+			vscode.Uri.joinPath(backupsUri, backupName),
+			content,
+		);
+		const tracking = await readSettingsTracking(context, profileName);
+		if (tracking) {
+			await vscode.workspace.fs.writeFile(
+				vscode.Uri.joinPath(backupsUri, getTrackingBackupName(backupName)),
+				Buffer.from(JSON.stringify(tracking, null, "\t")),
+			);
+		}
+
+		for (const name of (await listBackups(context, profileName)).slice(
+			retention,
+		)) {
+			await vscode.workspace.fs.delete(vscode.Uri.joinPath(backupsUri, name));
+			try {
+				await vscode.workspace.fs.delete(
+					vscode.Uri.joinPath(backupsUri, getTrackingBackupName(name)),
+				);
+			} catch {
+				// The profile was not tracked
+			}
+		}
+	} catch (error) {
+		Logger.error(
+			`Failed to back up settings of '${profileName}':`,
+			error,
+			"Backups",
+		);
+	}
+}
+
+/**
+ * Writes a profile's `settings.json` file, backing up its previous content
+ * first.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param settingsPath Path to the `settings.json` file.
+ * @param content New content of the file.
+ */
+export async function writeSettingsFile(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	settingsPath: string,
+	content: string,
+): Promise<void> {
+	await backupSettingsFile(context, profileName, settingsPath);
+	await fs.writeFile(settingsPath, content, "utf8");
+}
+
+/**
+ * Lets the user pick a profile and one of its `settings.json` backups, shows
+ * the differences with the current file, and restores the backup once
+ * confirmed.
+ *
+ * The current file is backed up before being restored, so that a restore can be
+ * undone as well. The inherited settings tracked along with the backup are
+ * restored too; backups without any are handled like files synced before
+ * settings were tracked.
+ * @param context Extension context.
+ */
+export async function restoreSettingsFromBackup(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	const currentProfile = await getCurrentProfileName(context);
+	const profileMap = await getProfileMap(context);
+
+	const profiles: string[] = [];
+	for (const profileName of Object.keys(profileMap)) {
+		if ((await listBackups(context, profileName)).length > 0) {
+			profiles.push(profileName);
+		}
+	}
+	if (profiles.length === 0) {
+		vscode.window.showInformationMessage("No settings backups found.");
+		return;
+	}
+
+	// Suggest the current profile first:
+	profiles.sort((a, b) =>
+		a === currentProfile ? -1 : b === currentProfile ? 1 : a.localeCompare(b),
+	);
+	const profileName =
+		profiles.length === 1
+			? profiles[0]
+			: await vscode.window.showQuickPick(profiles, {
+					placeHolder: "Select the profile to restore the settings of",
+				});
+	if (!profileName) {
+		return;
+	}
+
+	const backups = await listBackups(context, profileName);
+	const selected = await vscode.window.showQuickPick(backups, {
+		placeHolder: `Select a backup of '${profileName}' settings to restore`,
+	});
+	if (!selected) {
+		return;
+	}
+
+	const settingsPath = path.join(profileMap[profileName], "settings.json");
+	const backupUri = vscode.Uri.joinPath(
+		getBackupsUri(context, profileName),
+		selected,
+	);
+	const content = new TextDecoder().decode(
+		await vscode.workspace.fs.readFile(backupUri),
+	);
+	let tracking: SettingsTracking | undefined;
+	try {
+		tracking = JSON.parse(
+			new TextDecoder().decode(
+				await vscode.workspace.fs.readFile(
+					vscode.Uri.joinPath(
+						getBackupsUri(context, profileName),
+						getTrackingBackupName(selected),
+					),
+				),
+			),
+		) as SettingsTracking;
+	} catch {
+		// The profile was not tracked when backed up
+	}
+
+	await showPreviewDiff(
+		vscode.Uri.file(settingsPath),
+		content,
+		`${profileName} settings.json (backup ${selected})`,
+	);
+	const choice = await vscode.window.showWarningMessage(
+		`Restore the settings of '${profileName}' from ${selected}?`,
+		{ modal: true },
+		"Restore",
+	);
+	if (choice !== "Restore") {
+		return;
+	}
+
+	try {
+		await writeSettingsFile(context, profileName, settingsPath, content);
+		if (tracking) {
+			await writeSettingsTracking(context, profileName, tracking);
+		} else {
+			await deleteSettingsTracking(context, profileName);
+		}
+		Logger.info(
+			`Restored settings of '${profileName}' from ${selected}`,
+			"Backups",
+		);
+		vscode.window.showInformationMessage(
+			`Settings of '${profileName}' restored from ${selected}.`,
+		);
+	} catch (error) {
+		Logger.error(
+			`Failed to restore settings of '${profileName}':`,
+			error,
+			"Backups",
+		);
+		vscode.window.showErrorMessage(
+			`Failed to restore the settings of '${profileName}'.`,
+		);
+	}
+}
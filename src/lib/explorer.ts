@@ -0,0 +1,339 @@
+import * as path from "node:path";
+import { findNodeAtLocation, parseTree } from "jsonc-parser";
+import * as vscode from "vscode";
+import { getTrackedExtensions } from "./extensions.js";
+import { readDeclaredParents } from "./hierarchy.js";
+import { getCurrentProfileName, getProfileMap } from "./profileDiscovery.js";
+import { findSettingPath, readSettingsTracking } from "./settingsTracking.js";
+
+/**
+ * ID of the inheritance explorer view.
+ */
+const EXPLORER_VIEW = "inheritProfile.explorer";
+
+/**
+ * A node of the inheritance explorer.
+ */
+export type ExplorerNode =
+	| { type: "profile"; profileName: string }
+	| {
+			type: "group";
+			profileName: string;
+			kind: "parents" | "settings" | "extensions";
+	  }
+	| {
+			type: "source";
+			profileName: string;
+			kind: "settings" | "extensions";
+			source: string;
+	  }
+	| { type: "setting"; profileName: string; key: string; value: unknown }
+	| { type: "extension"; id: string };
+
+const onDidChangeTreeData = new vscode.EventEmitter<ExplorerNode | undefined>();
+
+/**
+ * Refreshes the inheritance explorer, e.g. after a sync.
+ */
+export function refreshInheritanceExplorer() {
+	onDidChangeTreeData.fire(undefined);
+}
+
+/**
+ * Gets the inherited settings written to a profile by its last sync,
+ * organized by the profile they come from.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ */
+async function getInheritedSettings(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): Promise<Map<string, Array<{ key: string; value: unknown }>>> {
+	const tracking = await readSettingsTracking(context, profileName);
+	const bySource = new Map<string, Array<{ key: string; value: unknown }>>();
+	for (const { path: settingPath, value, source } of tracking?.settings ?? []) {
+		const settings = bySource.get(source) ?? [];
+		settings.push({ key: settingPath.join("."), value });
+		bySource.set(source, settings);
+	}
+	return bySource;
+}
+
+/**
+ * Gets the inherited extensions installed on a profile's behalf, organized by
+ * the profile they come from.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ */
+function getInheritedExtensions(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): Map<string, string[]> {
+	const bySource = new Map<string, string[]>();
+	for (const [id, source] of Object.entries(
+		getTrackedExtensions(context, profileName),
+	)) {
+		bySource.set(source, [...(bySource.get(source) ?? []), id].sort());
+	}
+	return bySource;
+}
+
+/**
+ * Gets the children of a node of the inheritance explorer.
+ * @param context Extension context.
+ * @param node Node to get the children of, or `undefined` for the roots.
+ */
+async function getChildren(
+	context: vscode.ExtensionContext,
+	node: ExplorerNode | undefined,
+): Promise<ExplorerNode[]> {
+	const profileMap = await getProfileMap(context);
+
+	if (!node) {
+		// Every profile, the current one first:
+		const currentProfileName = await getCurrentProfileName(context);
+		return Object.keys(profileMap)
+			.sort((a, b) =>
+				a === currentProfileName
+					? -1
+					: b === currentProfileName
+						? 1
+						: a.localeCompare(b),
+			)
+			.map((profileName) => ({ type: "profile", profileName }));
+	}
+
+	switch (node.type) {
+		case "profile": {
+			const profilePath = profileMap[node.profileName];
+			if (!profilePath) {
+				return [];
+			}
+			const { profileName } = node;
+			const groups: ExplorerNode[] = [];
+			const parents = await readDeclaredParents(
+				context,
+				profileName,
+				profilePath,
+				Object.keys(profileMap),
+			);
+			if (parents.length > 0) {
+				groups.push({ type: "group", profileName, kind: "parents" });
+			}
+			if ((await getInheritedSettings(context, profileName)).size > 0) {
+				groups.push({ type: "group", profileName, kind: "settings" });
+			}
+			if (getInheritedExtensions(context, profileName).size > 0) {
+				groups.push({ type: "group", profileName, kind: "extensions" });
+			}
+			return groups;
+		}
+		case "group": {
+			const { profileName } = node;
+			if (node.kind === "parents") {
+				const parents = await readDeclaredParents(
+					context,
+					profileName,
+					profileMap[profileName],
+					Object.keys(profileMap),
+				);
+				return parents.map((parent) => ({
+					type: "profile",
+					profileName: parent,
+				}));
+			}
+			const sources =
+				node.kind === "settings"
+					? [...(await getInheritedSettings(context, profileName)).keys()]
+					: [...getInheritedExtensions(context, profileName).keys()];
+			return sources.map((source) => ({
+				type: "source",
+				profileName,
+				kind: node.kind as "settings" | "extensions",
+				source,
+			}));
+		}
+		case "source": {
+			const { profileName } = node;
+			if (node.kind === "settings") {
+				const settings = await getInheritedSettings(context, profileName);
+				return (settings.get(node.source) ?? []).map(({ key, value }) => ({
+					type: "setting",
+					profileName,
+					key,
+					value,
+				}));
+			}
+			const extensions = getInheritedExtensions(context, profileName);
+			return (extensions.get(node.source) ?? []).map((id) => ({
+				type: "extension",
+				id,
+			}));
+		}
+		default:
+			return [];
+	}
+}
+
+/**
+ * Builds the tree item of a node of the inheritance explorer.
+ * @param context Extension context.
+ * @param node Node to build the tree item of.
+ */
+async function getTreeItem(
+	context: vscode.ExtensionContext,
+	node: ExplorerNode,
+): Promise<vscode.TreeItem> {
+	switch (node.type) {
+		case "profile": {
+			const profileMap = await getProfileMap(context);
+			const currentProfileName = await getCurrentProfileName(context);
+			const isCurrent = node.profileName === currentProfileName;
+			const item = new vscode.TreeItem(
+				node.profileName,
+				isCurrent
+					? vscode.TreeItemCollapsibleState.Expanded
+					: vscode.TreeItemCollapsibleState.Collapsed,
+			);
+			if (!profileMap[node.profileName]) {
+				item.description = "not found";
+				item.iconPath = new vscode.ThemeIcon("warning");
+				item.collapsibleState = vscode.TreeItemCollapsibleState.None;
+				return item;
+			}
+			item.description = isCurrent ? "current" : undefined;
+			item.iconPath = new vscode.ThemeIcon(isCurrent ? "account" : "person");
+			item.contextValue = isCurrent ? "currentProfile" : "profile";
+			return item;
+		}
+		case "group": {
+			const labels = {
+				parents: "Parents",
+				settings: "Inherited settings",
+				extensions: "Inherited extensions",
+			};
+			const icons = {
+				parents: "type-hierarchy-super",
+				settings: "settings-gear",
+				extensions: "extensions",
+			};
+			const item = new vscode.TreeItem(
+				labels[node.kind],
+				vscode.TreeItemCollapsibleState.Collapsed,
+			);
+			item.iconPath = new vscode.ThemeIcon(icons[node.kind]);
+			return item;
+		}
+		case "source": {
+			const item = new vscode.TreeItem(
+				`from ${node.source}`,
+				vscode.TreeItemCollapsibleState.Collapsed,
+			);
+			item.iconPath = new vscode.ThemeIcon("arrow-down");
+			return item;
+		}
+		case "setting": {
+			const item = new vscode.TreeItem(node.key);
+			item.description = JSON.stringify(node.value);
+			item.tooltip = `${node.key}: ${JSON.stringify(node.value, null, 2)}`;
+			item.command = {
+				command: "inherit-profile.openProfileSettings",
+				title: "Open settings.json",
+				arguments: [node.profileName, node.key],
+			};
+			return item;
+		}
+		case "extension": {
+			const item = new vscode.TreeItem(node.id);
+			item.iconPath = new vscode.ThemeIcon("extensions");
+			item.command = {
+				command: "extension.open",
+				title: "Show extension",
+				arguments: [node.id],
+			};
+			return item;
+		}
+	}
+}
+
+/**
+ * Opens the `settings.json` file of a profile, optionally at a setting.
+ * @param context Extension context.
+ * @param profileName Name of the profile, defaults to the current profile.
+ * @param key Flattened key of the setting to reveal.
+ */
+export async function openProfileSettings(
+	context: vscode.ExtensionContext,
+	profileName?: string,
+	key?: string,
+): Promise<void> {
+	profileName ??= await getCurrentProfileName(context);
+	const profilePath = (await getProfileMap(context))[profileName];
+	if (!profilePath) {
+		vscode.window.showErrorMessage(
+			`Unable to find the settings of the '${profileName}' profile.`,
+		);
+		return;
+	}
+
+	const document = await vscode.workspace.openTextDocument(
+		vscode.Uri.file(path.join(profilePath, "settings.json")),
+	);
+	const raw = document.getText();
+	const settingPath = key ? findSettingPath(raw, key) : undefined;
+	const root = settingPath && parseTree(raw);
+	const node = root && settingPath && findNodeAtLocation(root, settingPath);
+	const position = node?.parent && document.positionAt(node.parent.offset);
+	await vscode.window.showTextDocument(document, {
+		selection: position && new vscode.Range(position, position),
+	});
+}
+
+/**
+ * Gets the name of the profile a command was run on: the profile node it was
+ * run from in the inheritance explorer, or the current profile.
+ * @param context Extension context.
+ * @param target Argument the command was run with.
+ */
+export async function getTargetProfileName(
+	context: vscode.ExtensionContext,
+	target: unknown,
+): Promise<string> {
+	if (typeof target === "string") {
+		return target;
+	}
+	const node = target as ExplorerNode | undefined;
+	return node?.type === "profile"
+		? node.profileName
+		: await getCurrentProfileName(context);
+}
+
+/**
+ * Registers the inheritance explorer view, showing every profile with its
+ * parents, and the settings and extensions it inherited grouped by the profile
+ * they come from.
+ * @param context Extension context.
+ */
+export function registerInheritanceExplorer(context: vscode.ExtensionContext) {
+	context.subscriptions.push(
+		onDidChangeTreeData,
+		vscode.window.createTreeView<ExplorerNode>(EXPLORER_VIEW, {
+			treeDataProvider: {
+				onDidChangeTreeData: onDidChangeTreeData.event,
+				getChildren: (node) => getChildren(context, node),
+				getTreeItem: (node) => getTreeItem(context, node),
+			},
+			showCollapseAll: true,
+		}),
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			if (event.affectsConfiguration("inheritProfile.parents")) {
+				refreshInheritanceExplorer();
+			}
+		}),
+		vscode.workspace.onDidSaveTextDocument((document) => {
+			if (path.basename(document.uri.fsPath) === "settings.json") {
+				refreshInheritanceExplorer();
+			}
+		}),
+	);
+}
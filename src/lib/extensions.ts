@@ -1,10 +1,14 @@
+import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
+import { type ParseError, parse } from "jsonc-parser";
 import * as vscode from "vscode";
+import { resolveProfileHierarchy } from "./hierarchy.js";
 import { Logger } from "./logger.js";
 import { getCurrentProfileName, getProfileMap } from "./profileDiscovery.js";
 import { Reporter } from "./reporter.js";
-import { readJSON } from "./utils.js";
+import { readStateValue } from "./stateDatabase.js";
+import { matchesGlob } from "./utils.js";
 
 /**
  * Gets the path to the global extensions directory.
@@ -14,8 +18,34 @@ export function getGlobalExtensionsDir(): string {
 	return path.join(os.homedir(), ".vscode", "extensions");
 }
 
+/**
+ * Gets the path to the `extensions.json` file of a profile.
+ *
+ * The default profile uses `~/.vscode/extensions/extensions.json`, whereas
+ * custom profiles use their own `extensions.json` in their profile folder.
+ * @param profileName Name of the profile.
+ * @param profilePath Directory of the profile.
+ * @param globalExtensionsDir Optional override for global extensions directory (for testing).
+ * @returns Returns the path to the `extensions.json` file of the profile.
+ */
+export function getProfileExtensionsPath(
+	profileName: string,
+	profilePath: string,
+	globalExtensionsDir?: string,
+): string {
+	return profileName === "Default"
+		? path.join(
+				globalExtensionsDir ?? getGlobalExtensionsDir(),
+				"extensions.json",
+			)
+		: path.join(profilePath, "extensions.json");
+}
+
 /**
  * Gets the disabled extensions for a profile from state.vscdb.
+ *
+ * If the database cannot be read, the error is logged and reported, and no
+ * extension is considered disabled.
  */
 async function getDisabledExtensions(
 	context: vscode.ExtensionContext,
@@ -29,30 +59,72 @@ async function getDisabledExtensions(
 
 	const stateDbPath = path.join(profilePath, "globalStorage", "state.vscdb");
 
+	let value: string | undefined;
 	try {
-		const { exec } = await import("node:child_process");
-		const { promisify } = await import("node:util");
-		const execAsync = promisify(exec);
-
-		const query = `SELECT value FROM ItemTable WHERE key = 'extensionsIdentifiers/disabled'`;
-		const { stdout } = await execAsync(`sqlite3 "${stateDbPath}" "${query}"`);
-
-		if (stdout.trim()) {
-			const disabled: { id: string }[] = JSON.parse(stdout.trim());
-			const ids = new Set(disabled.map((d) => d.id.toLowerCase()));
-			if (ids.size > 0) {
-				Logger.info(
-					`Found ${ids.size} disabled extensions in '${profileName}'`,
-					"Extensions",
-				);
-			}
-			return ids;
+		value = await readStateValue(stateDbPath, "extensionsIdentifiers/disabled");
+	} catch (error) {
+		Logger.error(
+			`Failed to read disabled extensions of '${profileName}' from ${stateDbPath}:`,
+			error,
+			"Extensions",
+		);
+		Reporter.trackWarning(
+			`Could not read the disabled extensions of \`${profileName}\`; its disabled extensions may have been inherited.`,
+		);
+		return new Set();
+	}
+
+	if (!value) {
+		return new Set();
+	}
+
+	try {
+		const disabled: { id: string }[] = JSON.parse(value);
+		const ids = new Set(disabled.map((d) => d.id.toLowerCase()));
+		if (ids.size > 0) {
+			Logger.info(
+				`Found ${ids.size} disabled extensions in '${profileName}'`,
+				"Extensions",
+			);
 		}
-	} catch {
-		// Database might not exist or query failed
+		return ids;
+	} catch (error) {
+		Logger.error(
+			`Invalid disabled extensions data for '${profileName}':`,
+			error,
+			"Extensions",
+		);
+		return new Set();
 	}
+}
+
+/**
+ * An extension installed in a profile, as listed in its `extensions.json`.
+ */
+export interface ProfileExtension {
+	id: string;
+	/**
+	 * Installed version of the extension.
+	 */
+	version?: string;
+	/**
+	 * Whether the extension is pinned to its installed version (auto-updates
+	 * disabled).
+	 */
+	pinned: boolean;
+	/**
+	 * Whether the pre-release version of the extension was chosen.
+	 */
+	preRelease: boolean;
+}
 
-	return new Set();
+/**
+ * Raw entry of an `extensions.json` file.
+ */
+interface ExtensionsJsonEntry {
+	identifier?: { id: string };
+	version?: string;
+	metadata?: { pinned?: boolean; preRelease?: boolean };
 }
 
 /**
@@ -60,64 +132,188 @@ async function getDisabledExtensions(
  * @param context Extension context.
  * @param profileName Name of the profile.
  * @param globalExtensionsDir Optional override for global extensions directory (for testing).
- * @returns List of extension IDs.
+ * @returns List of extensions, with their version and metadata, or `undefined`
+ * if the profile cannot be found or its `extensions.json` cannot be read (e.g.
+ * while VS Code is writing it).
  */
 export async function getProfileExtensions(
 	context: vscode.ExtensionContext,
 	profileName: string,
 	globalExtensionsDir?: string,
-): Promise<string[]> {
+): Promise<ProfileExtension[] | undefined> {
 	const profileMap = await getProfileMap(context);
 	const profilePath = profileMap[profileName];
 	if (!profilePath) {
 		Logger.warn(`Profile '${profileName}' not found.`, "Extensions");
-		return [];
+		return undefined;
 	}
 
-	// Default profile uses ~/.vscode/extensions/extensions.json
-	// Custom profiles use their own extensions.json in their profile folder
-	const isDefault = profileName === "Default";
-	const extensionsPath = isDefault
-		? path.join(
-				globalExtensionsDir ?? getGlobalExtensionsDir(),
-				"extensions.json",
-			)
-		: path.join(profilePath, "extensions.json");
-
-	const extensions = await readJSON(extensionsPath, true);
+	const extensionsPath = getProfileExtensionsPath(
+		profileName,
+		profilePath,
+		globalExtensionsDir,
+	);
 
-	if (Array.isArray(extensions)) {
-		const ids = extensions
-			.map((ext: { identifier?: { id: string } }) => ext.identifier?.id)
-			.filter((id): id is string => typeof id === "string");
-		Logger.info(
-			`Found ${ids.length} extensions in '${profileName}' profile`,
+	let raw: string;
+	try {
+		raw = await fs.readFile(extensionsPath, "utf8");
+	} catch {
+		Logger.warn(
+			`No extensions.json found for '${profileName}' profile`,
 			"Extensions",
 		);
-		return ids;
+		return undefined;
+	}
+	const errors: ParseError[] = [];
+	const extensions: unknown = parse(raw, errors);
+	if (errors.length > 0 || !Array.isArray(extensions)) {
+		Logger.warn(
+			`Unable to read the extensions.json of '${profileName}' profile`,
+			"Extensions",
+		);
+		return undefined;
 	}
 
-	Logger.warn(
-		`No extensions.json found for '${profileName}' profile`,
+	const entries: ProfileExtension[] = [];
+	for (const ext of extensions as ExtensionsJsonEntry[]) {
+		const id = ext?.identifier?.id;
+		if (typeof id !== "string") {
+			continue;
+		}
+		entries.push({
+			id,
+			version: typeof ext.version === "string" ? ext.version : undefined,
+			pinned: ext.metadata?.pinned === true,
+			preRelease: ext.metadata?.preRelease === true,
+		});
+	}
+	Logger.info(
+		`Found ${entries.length} extensions in '${profileName}' profile`,
 		"Extensions",
 	);
-	return [];
+	return entries;
 }
 
 /**
- * Gets extensions to inherit from parent profiles.
- * Only includes extensions that are ENABLED in the parent (not disabled).
- * Returns a map of extension ID to the parent it comes from.
+ * Glob patterns controlling which extensions are inherited.
+ */
+interface ExtensionFilters {
+	/**
+	 * Extensions matching any of these patterns are not inherited.
+	 */
+	exclude: string[];
+	/**
+	 * Extensions matching any of these patterns are always inherited, even if
+	 * they match an `exclude` pattern.
+	 */
+	include: string[];
+}
+
+/**
+ * An inherited extension whose version differs between the parent it comes
+ * from and the current profile.
+ */
+export interface VersionMismatch {
+	id: string;
+	source: string;
+	parentVersion: string;
+	localVersion: string;
+	/**
+	 * Whether the extension is pinned to its version in the parent.
+	 */
+	pinned: boolean;
+}
+
+/**
+ * An extension that was not inherited because of the extension filters.
+ */
+export interface FilteredExtension {
+	id: string;
+	source: string;
+	reason: string;
+}
+
+/**
+ * Reads the `inheritProfile.extensionFilters` setting.
+ */
+function getExtensionFilters(): ExtensionFilters {
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	const filters = config.get<Partial<ExtensionFilters>>("extensionFilters", {});
+	return {
+		exclude: filters.exclude ?? [],
+		include: filters.include ?? [],
+	};
+}
+
+/**
+ * Checks whether an extension matches a filter pattern. Patterns are matched
+ * against both the full extension ID and its publisher.
+ * @param id Extension ID (`publisher.name`).
+ * @param pattern Glob pattern.
+ */
+function matchesExtensionPattern(id: string, pattern: string): boolean {
+	const publisher = id.split(".")[0];
+	return matchesGlob(id, pattern) || matchesGlob(publisher, pattern);
+}
+
+/**
+ * Gets the reason an extension is filtered out, if it is.
+ * @param id Extension ID.
+ * @param filters Extension filters.
+ * @returns Returns the reason the extension is not inherited, or `undefined`
+ * if it should be inherited.
+ */
+function getExtensionFilterReason(
+	id: string,
+	filters: ExtensionFilters,
+): string | undefined {
+	if (filters.include.some((pattern) => matchesExtensionPattern(id, pattern))) {
+		return undefined;
+	}
+	const pattern = filters.exclude.find((p) => matchesExtensionPattern(id, p));
+	return pattern ? `Excluded by \`${pattern}\`` : undefined;
+}
+
+/**
+ * Gets extensions to inherit from every ancestor of the current profile.
+ * Only includes extensions that are not filtered out by
+ * `inheritProfile.extensionFilters`.
+ *
+ * Extensions that are disabled in the ancestor are skipped, unless
+ * `inheritProfile.disabledExtensions` is set to `mirror`, in which case they
+ * are inherited and reported as disabled.
+ * @returns Returns a map of extension ID to the ancestor it comes from, the
+ * extension as installed in that ancestor, the inherited extensions that are
+ * disabled in that ancestor, the extensions that were filtered out, and
+ * whether the extensions of every ancestor could be read. If not, an extension
+ * missing from the map may still be inherited.
  */
 async function getParentExtensions(
 	context: vscode.ExtensionContext,
+	currentProfileName: string,
 	parentProfiles: string[],
-): Promise<Map<string, string>> {
+): Promise<{
+	extensions: Map<string, string>;
+	entries: Map<string, ProfileExtension>;
+	disabled: Set<string>;
+	filtered: FilteredExtension[];
+	complete: boolean;
+}> {
 	const extensionMap = new Map<string, string>();
+	const entryMap = new Map<string, ProfileExtension>();
+	const disabledSet = new Set<string>();
+	const filteredMap = new Map<string, FilteredExtension>();
+	const filters = getExtensionFilters();
+	const mirrorDisabled = getDisabledExtensionsMode() === "mirror";
+	const { order, missing } = await resolveProfileHierarchy(
+		context,
+		currentProfileName,
+		parentProfiles,
+	);
 
 	// Optimize: fetch all data in parallel
 	const profilesData = await Promise.all(
-		parentProfiles.map(async (parent) => {
+		order.map(async (parent) => {
 			const [allExtensions, disabledExtensions] = await Promise.all([
 				getProfileExtensions(context, parent),
 				getDisabledExtensions(context, parent),
@@ -127,23 +323,140 @@ async function getParentExtensions(
 	);
 
 	for (const { parent, allExtensions, disabledExtensions } of profilesData) {
-		// Only include extensions that are NOT disabled in this parent
-		for (const id of allExtensions) {
-			const lowerId = id.toLowerCase();
+		for (const entry of allExtensions ?? []) {
+			const lowerId = entry.id.toLowerCase();
 
-			// Filter out GitHub Copilot extensions as requested
-			if (lowerId.startsWith("github.copilot")) {
+			// Only include extensions that are NOT disabled in this parent, unless
+			// the disabled state is mirrored
+			const isDisabled = disabledExtensions.has(lowerId);
+			if (isDisabled && !mirrorDisabled) {
 				continue;
 			}
 
-			if (!disabledExtensions.has(lowerId)) {
-				// Later parents override earlier ones
+			// Later parents override earlier ones
+			const reason = getExtensionFilterReason(lowerId, filters);
+			if (reason) {
+				filteredMap.set(lowerId, { id: lowerId, source: parent, reason });
+			} else {
 				extensionMap.set(lowerId, parent);
+				entryMap.set(lowerId, entry);
+				if (isDisabled) {
+					disabledSet.add(lowerId);
+				} else {
+					disabledSet.delete(lowerId);
+				}
 			}
 		}
 	}
 
-	return extensionMap;
+	return {
+		extensions: extensionMap,
+		entries: entryMap,
+		disabled: disabledSet,
+		filtered: [...filteredMap.values()],
+		complete:
+			missing.length === 0 &&
+			profilesData.every(({ allExtensions }) => allExtensions !== undefined),
+	};
+}
+
+/**
+ * Reads the `inheritProfile.disabledExtensions` setting.
+ */
+function getDisabledExtensionsMode(): "skip" | "mirror" {
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	return config.get<"skip" | "mirror">("disabledExtensions", "skip");
+}
+
+/**
+ * Gets the extensions the user chose to keep enabled in a profile, even though
+ * they are disabled in the parent they are inherited from.
+ */
+function getLocallyEnabledExtensions(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): string[] {
+	return context.globalState.get<string[]>(
+		`locallyEnabledExtensions.${profileName}`,
+		[],
+	);
+}
+
+/**
+ * Asks the user to disable the inherited extensions that are disabled in their
+ * parent but enabled in the current profile.
+ *
+ * VS Code does not provide an API to disable an extension, so the extensions
+ * are shown in the Extensions view for the user to disable. Extensions the
+ * user chooses to keep enabled are remembered and not asked about again.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param ids Extensions to disable.
+ */
+async function promptDisableExtensions(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	ids: string[],
+): Promise<void> {
+	const choice = await vscode.window.showInformationMessage(
+		`${ids.length} extensions inherited by '${profileName}' are disabled in its parents: ${ids.join(", ")}.`,
+		"Show Extensions",
+		"Keep Enabled",
+	);
+
+	if (choice === "Show Extensions") {
+		await vscode.commands.executeCommand(
+			"workbench.extensions.search",
+			ids.map((id) => `@id:${id}`).join(" "),
+		);
+	} else if (choice === "Keep Enabled") {
+		const enabled = new Set(getLocallyEnabledExtensions(context, profileName));
+		for (const id of ids) {
+			enabled.add(id);
+		}
+		await context.globalState.update(
+			`locallyEnabledExtensions.${profileName}`,
+			[...enabled],
+		);
+	}
+}
+
+/**
+ * Compares the versions of the extensions installed in the current profile
+ * with the versions installed in the parents they are inherited from.
+ * @param localExtensions Extensions installed in the current profile.
+ * @param parentExtensions Map of inherited extension ID to its parent.
+ * @param parentEntries Map of inherited extension ID to the extension as
+ * installed in its parent.
+ * @returns Returns the inherited extensions whose versions differ.
+ */
+function getVersionMismatches(
+	localExtensions: ProfileExtension[],
+	parentExtensions: Map<string, string>,
+	parentEntries: Map<string, ProfileExtension>,
+): VersionMismatch[] {
+	const mismatches: VersionMismatch[] = [];
+	for (const local of localExtensions) {
+		const id = local.id.toLowerCase();
+		const source = parentExtensions.get(id);
+		const parent = parentEntries.get(id);
+		if (
+			!source ||
+			!parent?.version ||
+			!local.version ||
+			parent.version === local.version
+		) {
+			continue;
+		}
+		mismatches.push({
+			id,
+			source,
+			parentVersion: parent.version,
+			localVersion: local.version,
+			pinned: parent.pinned,
+		});
+	}
+	return mismatches;
 }
 
 /**
@@ -157,9 +470,166 @@ function getInstalledExtensionIds(): Set<string> {
 	);
 }
 
+/**
+ * Gets the extensions that were installed on a profile's behalf by a previous
+ * sync, mapped to the parent they were inherited from.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ */
+export function getTrackedExtensions(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): Record<string, string> {
+	return context.globalState.get<Record<string, string>>(
+		`installedExtensions.${profileName}`,
+		{},
+	);
+}
+
+/**
+ * Records the extensions installed on a profile's behalf.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param tracked Map of extension ID to the parent it was inherited from.
+ */
+async function setTrackedExtensions(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	tracked: Record<string, string>,
+): Promise<void> {
+	await context.globalState.update(
+		`installedExtensions.${profileName}`,
+		tracked,
+	);
+}
+
+/**
+ * Stops tracking the extensions installed on a profile's behalf, so that they
+ * are kept as the profile's own extensions.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @returns Returns the IDs of the extensions that were tracked.
+ */
+export async function forgetInheritedExtensions(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): Promise<string[]> {
+	const ids = Object.keys(getTrackedExtensions(context, profileName));
+	await setTrackedExtensions(context, profileName, {});
+	return ids;
+}
+
+/**
+ * Uninstalls extensions that are no longer inherited from any parent and stops
+ * tracking them.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param ids Extensions to uninstall.
+ * @returns Returns the number of extensions that failed to uninstall.
+ */
+async function uninstallExtensions(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	ids: string[],
+): Promise<number> {
+	let failedCount = 0;
+	const tracked = { ...getTrackedExtensions(context, profileName) };
+	for (const id of ids) {
+		Logger.info(`Uninstalling '${id}'...`, "Extensions");
+		try {
+			await vscode.commands.executeCommand(
+				"workbench.extensions.uninstallExtension",
+				id,
+			);
+			Reporter.trackExtensionResult(id, "uninstalled");
+			delete tracked[id];
+		} catch (err) {
+			Logger.error(`Failed to uninstall '${id}'`, err, "Extensions");
+			Reporter.trackExtensionResult(id, "failed");
+			failedCount++;
+		}
+	}
+	await setTrackedExtensions(context, profileName, tracked);
+	return failedCount;
+}
+
+/**
+ * Asks the user whether extensions that are no longer inherited should be
+ * uninstalled.
+ *
+ * Extensions the user chooses to keep are no longer tracked, and are therefore
+ * treated as local extensions from then on.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param ids Extensions that are no longer inherited.
+ */
+async function promptUninstallExtensions(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	ids: string[],
+): Promise<void> {
+	const choice = await vscode.window.showInformationMessage(
+		`${ids.length} extensions inherited by '${profileName}' were removed from its parents: ${ids.join(", ")}. Uninstall them?`,
+		"Uninstall",
+		"Keep",
+	);
+
+	if (choice === "Uninstall") {
+		await uninstallExtensions(context, profileName, ids);
+	} else if (choice === "Keep") {
+		const tracked = { ...getTrackedExtensions(context, profileName) };
+		for (const id of ids) {
+			delete tracked[id];
+		}
+		await setTrackedExtensions(context, profileName, tracked);
+	}
+}
+
+/**
+ * Gets the extensions that `syncExtensions` would install on the current
+ * profile, without installing them.
+ * @param context Extension context.
+ * @returns Returns a map of extension ID to the parent it comes from.
+ */
+export async function getExtensionsToInstall(
+	context: vscode.ExtensionContext,
+): Promise<Map<string, string>> {
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	const parentProfiles = config.get<string[]>("parents", []);
+	if (!config.get<boolean>("extensions", true) || parentProfiles.length === 0) {
+		return new Map();
+	}
+
+	const currentProfileName = await getCurrentProfileName(context);
+	const installedIds = getInstalledExtensionIds();
+	const { extensions: parentExtensions } = await getParentExtensions(
+		context,
+		currentProfileName,
+		parentProfiles,
+	);
+	// NOTE: Disabled extensions are not listed by the extensions API.
+	const locallyDisabled = await getDisabledExtensions(
+		context,
+		currentProfileName,
+	);
+
+	const missing = new Map<string, string>();
+	for (const [id, source] of parentExtensions) {
+		if (!installedIds.has(id) && !locallyDisabled.has(id)) {
+			missing.set(id, source);
+		}
+	}
+	return missing;
+}
+
 /**
  * Synchronizes extensions from parent profiles to the current profile.
- * Installs missing extensions that are enabled in parent profiles.
+ * Installs missing extensions that are enabled in parent profiles, and handles
+ * previously inherited extensions that are no longer in any parent profile
+ * according to `inheritProfile.uninstallRemovedExtensions`.
+ *
+ * Only extensions installed by this extension are ever uninstalled; extensions
+ * the user installed locally are left alone.
  */
 export async function syncExtensions(context: vscode.ExtensionContext) {
 	const config = vscode.workspace.getConfiguration("inheritProfile");
@@ -182,11 +652,29 @@ export async function syncExtensions(context: vscode.ExtensionContext) {
 	);
 
 	// Get extensions from all parent profiles
-	const parentExtensions = await getParentExtensions(context, parentProfiles);
+	const {
+		extensions: parentExtensions,
+		entries: parentEntries,
+		disabled: disabledInParents,
+		filtered,
+		complete,
+	} = await getParentExtensions(context, currentProfileName, parentProfiles);
+	// NOTE: Disabled extensions are not listed by the extensions API.
+	const locallyDisabled = await getDisabledExtensions(
+		context,
+		currentProfileName,
+	);
 	Logger.info(
 		`Found ${parentExtensions.size} extensions in parent profiles`,
 		"Extensions",
 	);
+	if (filtered.length > 0) {
+		Logger.info(
+			`Filtered out ${filtered.length} extensions: ${filtered.map((f) => f.id).join(", ")}`,
+			"Extensions",
+		);
+	}
+	Reporter.trackFilteredExtensions(filtered);
 
 	// Track extensions by parent for reporting
 	const extensionsByParent = new Map<string, string[]>();
@@ -199,11 +687,39 @@ export async function syncExtensions(context: vscode.ExtensionContext) {
 		extensionsByParent.get(source)?.push(id);
 	}
 
+	// Find the extensions installed by a previous sync that are no longer
+	// inherited from any parent. If the extensions of an ancestor could not be
+	// read, they may still be inherited and none of them are removed:
+	// NOTE: Extensions the user uninstalled manually are no longer tracked, the
+	// ones they disabled still are.
+	if (!complete) {
+		Logger.warn(
+			"Unable to read the extensions of every ancestor, skipping the removal of extensions that are no longer inherited",
+			"Extensions",
+		);
+	}
+	const tracked: Record<string, string> = {};
+	const removedExtensions: string[] = [];
+	for (const [id, source] of Object.entries(
+		getTrackedExtensions(context, currentProfileName),
+	)) {
+		if (!installedIds.has(id) && !locallyDisabled.has(id)) {
+			continue;
+		}
+		tracked[id] = parentExtensions.get(id) ?? source;
+		if (complete && !parentExtensions.has(id)) {
+			removedExtensions.push(id);
+		}
+	}
+
 	// Add local unique extensions (those not in any parent)
 	const localExtensions = new Set(installedIds);
 	for (const [id] of parentExtensions) {
 		localExtensions.delete(id);
 	}
+	for (const id of removedExtensions) {
+		localExtensions.delete(id);
+	}
 
 	if (localExtensions.size > 0) {
 		extensionsByParent.set(currentProfileName, Array.from(localExtensions));
@@ -214,34 +730,130 @@ export async function syncExtensions(context: vscode.ExtensionContext) {
 	// Install missing extensions
 	let installedCount = 0;
 	let failedCount = 0;
+	const failedIds = new Set<string>();
 
 	for (const [lowerId, source] of parentExtensions) {
-		if (installedIds.has(lowerId)) {
+		if (installedIds.has(lowerId) || locallyDisabled.has(lowerId)) {
 			continue;
 		}
 
-		Logger.info(`Installing '${lowerId}' from '${source}'...`, "Extensions");
+		// Install the same version as the parent if it is pinned there, and the
+		// pre-release version if the parent uses it:
+		const entry = parentEntries.get(lowerId);
+		const installId =
+			entry?.pinned && entry.version ? `${lowerId}@${entry.version}` : lowerId;
+		const preRelease = entry?.preRelease ?? false;
+
+		Logger.info(
+			`Installing '${installId}'${preRelease ? " (pre-release)" : ""} from '${source}'...`,
+			"Extensions",
+		);
 		try {
 			await vscode.commands.executeCommand(
 				"workbench.extensions.installExtension",
-				lowerId,
-				{ donotSync: true },
+				installId,
+				{ donotSync: true, installPreReleaseVersion: preRelease },
 			);
 			Reporter.trackExtensionResult(lowerId, "installed");
+			tracked[lowerId] = source;
 			installedCount++;
 		} catch (err) {
 			Logger.error(`Failed to install '${lowerId}'`, err, "Extensions");
 			Reporter.trackExtensionResult(lowerId, "failed");
+			failedIds.add(lowerId);
 			failedCount++;
 		}
 	}
 
+	// Keep track of the extensions installed on the profile's behalf, including
+	// the ones that are no longer inherited until they are dealt with:
+	await setTrackedExtensions(context, currentProfileName, tracked);
+
+	// Handle extensions that are no longer inherited
+	let uninstalledCount = 0;
+	if (removedExtensions.length > 0) {
+		const mode = config.get<"prompt" | "auto" | "never">(
+			"uninstallRemovedExtensions",
+			"prompt",
+		);
+		Logger.info(
+			`${removedExtensions.length} inherited extensions are no longer in parent profiles: ${removedExtensions.join(", ")}`,
+			"Extensions",
+		);
+
+		if (mode === "auto") {
+			const failed = await uninstallExtensions(
+				context,
+				currentProfileName,
+				removedExtensions,
+			);
+			uninstalledCount = removedExtensions.length - failed;
+			failedCount += failed;
+		} else {
+			for (const id of removedExtensions) {
+				Reporter.trackExtensionResult(id, "removed");
+			}
+			if (mode === "prompt") {
+				// NOTE: The prompt is not awaited so that an unanswered notification
+				// does not block the sync.
+				void promptUninstallExtensions(
+					context,
+					currentProfileName,
+					removedExtensions,
+				);
+			}
+		}
+	}
+
+	// Report the inherited extensions whose version differs from the parent
+	const mismatches = getVersionMismatches(
+		(await getProfileExtensions(context, currentProfileName)) ?? [],
+		parentExtensions,
+		parentEntries,
+	);
+	if (mismatches.length > 0) {
+		Logger.info(
+			`${mismatches.length} inherited extensions have a different version than in their parent: ${mismatches.map((m) => `${m.id} (${m.localVersion} instead of ${m.parentVersion})`).join(", ")}`,
+			"Extensions",
+		);
+	}
+	Reporter.trackVersionMismatches(mismatches);
+
+	// Mirror the disabled state of the inherited extensions
+	if (disabledInParents.size > 0) {
+		const keptEnabled = new Set(
+			getLocallyEnabledExtensions(context, currentProfileName),
+		);
+		const toDisable: string[] = [];
+		for (const id of disabledInParents) {
+			Reporter.trackExtensionResult(id, "disabled");
+			if (
+				!locallyDisabled.has(id) &&
+				!keptEnabled.has(id) &&
+				!failedIds.has(id)
+			) {
+				toDisable.push(id);
+			}
+		}
+
+		if (toDisable.length > 0) {
+			Logger.info(
+				`${toDisable.length} inherited extensions are disabled in parent profiles: ${toDisable.join(", ")}`,
+				"Extensions",
+			);
+			// NOTE: The prompt is not awaited so that an unanswered notification
+			// does not block the sync.
+			void promptDisableExtensions(context, currentProfileName, toDisable);
+		}
+	}
+
 	// Summary
-	if (installedCount === 0 && failedCount === 0) {
+	if (installedCount === 0 && failedCount === 0 && uninstalledCount === 0) {
 		Logger.info("All extensions already installed.", "Extensions");
 	} else {
 		const parts: string[] = [];
 		if (installedCount > 0) parts.push(`${installedCount} installed`);
+		if (uninstalledCount > 0) parts.push(`${uninstalledCount} uninstalled`);
 		if (failedCount > 0) parts.push(`${failedCount} failed`);
 		Logger.info(`Extensions sync complete: ${parts.join(", ")}`, "Extensions");
 	}
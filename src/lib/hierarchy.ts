@@ -0,0 +1,150 @@
+import * as path from "node:path";
+import type * as vscode from "vscode";
+import { Logger } from "./logger.js";
+import { getProfileMap } from "./profileDiscovery.js";
+import { Reporter } from "./reporter.js";
+import { readLocalSettings } from "./settingsTracking.js";
+
+/**
+ * Result of resolving the full ancestry of a profile.
+ */
+export interface ProfileHierarchy {
+	/**
+	 * Every ancestor of the profile, lowest priority first (the same convention
+	 * as `inheritProfile.parents`).
+	 */
+	order: string[];
+	/**
+	 * Direct parents of each profile in the hierarchy, as declared by their own
+	 * `inheritProfile.parents` setting.
+	 */
+	parentsOf: Map<string, string[]>;
+	/**
+	 * Inheritance cycles found while resolving, each one starting and ending
+	 * with the same profile.
+	 */
+	cycles: string[][];
+	/**
+	 * Ancestors that were referenced but could not be found.
+	 */
+	missing: string[];
+}
+
+/**
+ * Reads the `inheritProfile.parents` setting declared locally by a profile.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param profilePath Directory of the profile.
+ * @param profileNames Names of all known profiles.
+ * @returns Returns the parents declared by the profile.
+ */
+export async function readDeclaredParents(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	profilePath: string,
+	profileNames: string[],
+): Promise<string[]> {
+	const settings = await readLocalSettings(
+		context,
+		profileName,
+		path.join(profilePath, "settings.json"),
+		profileNames,
+	);
+	const parents: unknown = settings["inheritProfile.parents"];
+	if (!Array.isArray(parents)) {
+		return [];
+	}
+	return parents.filter((p): p is string => typeof p === "string");
+}
+
+/**
+ * Resolves the full ancestry of a profile by following the
+ * `inheritProfile.parents` setting of each of its ancestors.
+ *
+ * The ancestry is linearized depth-first: each parent is preceded by its own
+ * ancestors, and parents are visited in the order they are declared. A profile
+ * that is reachable through several paths only appears once, at its first
+ * position. This guarantees that every profile is placed after all of its
+ * ancestors, so closer profiles always override more distant ones.
+ *
+ * Cycles and missing ancestors are collected instead of being followed.
+ * @param context Extension context.
+ * @param profileName Name of the profile to resolve the ancestry of.
+ * @param parents Direct parents of the profile.
+ * @returns Returns the resolved hierarchy.
+ */
+export async function resolveProfileHierarchy(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	parents: string[],
+): Promise<ProfileHierarchy> {
+	const profileMap = await getProfileMap(context);
+	const profileNames = Object.keys(profileMap);
+
+	const hierarchy: ProfileHierarchy = {
+		order: [],
+		parentsOf: new Map([[profileName, parents]]),
+		cycles: [],
+		missing: [],
+	};
+	const visited = new Set<string>([profileName]);
+	const stack: string[] = [profileName];
+
+	const visit = async (name: string): Promise<void> => {
+		const stackIndex = stack.indexOf(name);
+		if (stackIndex !== -1) {
+			hierarchy.cycles.push([...stack.slice(stackIndex), name]);
+			return;
+		}
+		if (visited.has(name)) {
+			return;
+		}
+		visited.add(name);
+
+		const profilePath = profileMap[name];
+		if (!profilePath) {
+			hierarchy.missing.push(name);
+			return;
+		}
+
+		const declaredParents = await readDeclaredParents(
+			context,
+			name,
+			profilePath,
+			profileNames,
+		);
+		hierarchy.parentsOf.set(name, declaredParents);
+
+		stack.push(name);
+		for (const parent of declaredParents) {
+			await visit(parent);
+		}
+		stack.pop();
+
+		hierarchy.order.push(name);
+	};
+
+	for (const parent of parents) {
+		await visit(parent);
+	}
+
+	return hierarchy;
+}
+
+/**
+ * Logs and reports the cycles and missing ancestors of a resolved hierarchy.
+ * @param hierarchy Resolved hierarchy.
+ */
+export function reportHierarchy(hierarchy: ProfileHierarchy): void {
+	Reporter.trackHierarchy(hierarchy);
+
+	for (const cycle of hierarchy.cycles) {
+		Logger.warn(
+			`Inheritance cycle detected: ${cycle.join(" -> ")}`,
+			"Hierarchy",
+		);
+	}
+	for (const name of hierarchy.missing) {
+		Logger.warn(`Ancestor profile '${name}' not found.`, "Hierarchy");
+	}
+}
@@ -0,0 +1,527 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { createScanner, parse, SyntaxKind } from "jsonc-parser";
+import * as vscode from "vscode";
+import { resolveProfileHierarchy } from "./hierarchy.js";
+import { Logger } from "./logger.js";
+import { getCurrentProfileName, getProfileMap } from "./profileDiscovery.js";
+import { Reporter } from "./reporter.js";
+import { findTabValue, getHeaderName, removeTrailingComma } from "./utils.js";
+
+/**
+ * A single entry of a `keybindings.json` file.
+ */
+export interface Keybinding {
+	key: string;
+	command: string;
+	when?: string;
+	args?: unknown;
+}
+
+/**
+ * Gets the identity of a keybinding. Two keybindings with the same identity
+ * shadow each other.
+ */
+function getKeybindingId(binding: Keybinding): string {
+	return `${binding.key}|${binding.command}|${binding.when ?? ""}`;
+}
+
+/**
+ * Checks whether an inherited keybinding is shadowed by the local keybindings,
+ * either because the same binding is declared locally, or because it is
+ * removed locally with a `-command` entry.
+ * @param binding Inherited keybinding.
+ * @param local Local keybindings.
+ */
+function isShadowedLocally(binding: Keybinding, local: Keybinding[]): boolean {
+	const id = getKeybindingId(binding);
+	return local.some((l) => {
+		if (getKeybindingId(l) === id) {
+			return true;
+		}
+		// A removal without a `when` clause removes every variant of the binding:
+		return (
+			l.command === `-${binding.command}` &&
+			l.key === binding.key &&
+			(l.when === undefined || l.when === binding.when)
+		);
+	});
+}
+
+/**
+ * The inherited keybindings written to a profile's `keybindings.json` file by
+ * the last sync, in the groups they were written in.
+ */
+export interface KeybindingsTracking {
+	groups: Array<{ name: string; keybindings: Keybinding[] }>;
+}
+
+/**
+ * Gets the file the inherited keybindings of a profile are tracked in.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ */
+function getKeybindingsTrackingUri(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): vscode.Uri {
+	return vscode.Uri.joinPath(
+		context.globalStorageUri,
+		"inheritedKeybindings",
+		`${encodeURIComponent(profileName)}.json`,
+	);
+}
+
+/**
+ * Reads the inherited keybindings written to a profile by the last sync.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @returns Returns the tracked keybindings, or `undefined` if the profile never
+ * inherited keybindings.
+ */
+async function readKeybindingsTracking(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): Promise<KeybindingsTracking | undefined> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(
+			getKeybindingsTrackingUri(context, profileName).fsPath,
+			"utf8",
+		);
+	} catch {
+		return undefined;
+	}
+
+	const json: unknown = parse(raw);
+	if (!json || typeof json !== "object" || !("groups" in json)) {
+		Logger.warn(
+			`Invalid inherited keybindings tracking for '${profileName}', ignoring it`,
+			"Keybindings",
+		);
+		return undefined;
+	}
+	const { groups } = json as Partial<KeybindingsTracking>;
+	return { groups: Array.isArray(groups) ? groups : [] };
+}
+
+/**
+ * Records the inherited keybindings written to a profile.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param tracking Inherited keybindings that were written.
+ */
+async function writeKeybindingsTracking(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	tracking: KeybindingsTracking,
+): Promise<void> {
+	const uri = getKeybindingsTrackingUri(context, profileName);
+	await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, ".."));
+	await vscode.workspace.fs.writeFile(
+		uri,
+		Buffer.from(JSON.stringify(tracking, null, "\t")),
+	);
+}
+
+/**
+ * Finds the offset of the opening bracket of a raw `keybindings.json` file,
+ * ignoring comments.
+ * @returns Returns the offset, or -1 if there is no opening bracket.
+ */
+function findOpeningBracket(raw: string): number {
+	const scanner = createScanner(raw);
+	let token = scanner.scan();
+	while (token !== SyntaxKind.OpenBracketToken && token !== SyntaxKind.EOF) {
+		token = scanner.scan();
+	}
+	return token === SyntaxKind.EOF ? -1 : scanner.getTokenOffset();
+}
+
+/**
+ * Removes the tracked inherited keybindings from a raw `keybindings.json` file.
+ *
+ * Only the group headers and the keybindings written by the last sync are
+ * removed, exactly as they were written at the start of the array. Comments
+ * that look like group headers but were written by the user, and the
+ * keybindings under them, are kept.
+ * @param raw Raw `keybindings.json` file.
+ * @param tracking Inherited keybindings written by the last sync, if any.
+ * @returns Returns the raw file without the tracked keybindings.
+ */
+export function removeInheritedKeybindings(
+	raw: string,
+	tracking: KeybindingsTracking | undefined,
+): string {
+	const remaining = new Map(
+		(tracking?.groups ?? []).map(({ name, keybindings }) => [
+			name,
+			keybindings.map((binding) => JSON.stringify(binding)),
+		]),
+	);
+	const openIndex = findOpeningBracket(raw);
+	if (remaining.size === 0 || openIndex === -1) {
+		return raw;
+	}
+
+	const outputLines: string[] = [];
+	// Keybindings written under the group header that was last removed:
+	let group: string[] | undefined;
+	for (const line of raw.slice(openIndex + 1).split("\n")) {
+		const headerName = getHeaderName(line);
+		if (headerName !== null) {
+			// Each group is written once, the next headers are the user's:
+			group = remaining.get(headerName);
+			remaining.delete(headerName);
+			if (!group) {
+				outputLines.push(line);
+			}
+			continue;
+		}
+
+		const entry = line.trim().replace(/,$/, "");
+		const index = group ? group.indexOf(entry) : -1;
+		if (group && index !== -1) {
+			group.splice(index, 1);
+		} else if (!group || entry !== "") {
+			outputLines.push(line);
+		}
+	}
+
+	return removeTrailingComma(
+		raw.slice(0, openIndex + 1) + outputLines.join("\n"),
+	);
+}
+
+/**
+ * Reads the keybindings declared locally in a profile's `keybindings.json`
+ * file, ignoring the keybindings it inherited from other profiles.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param keybindingsPath Path to the `keybindings.json` file.
+ * @returns Returns the local keybindings, or [] on error.
+ */
+async function readLocalKeybindings(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	keybindingsPath: string,
+): Promise<Keybinding[]> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(keybindingsPath, "utf8");
+	} catch {
+		return [];
+	}
+	const tracking = await readKeybindingsTracking(context, profileName);
+	const json: unknown = parse(removeInheritedKeybindings(raw, tracking));
+	if (!Array.isArray(json)) {
+		return [];
+	}
+	return json.filter(
+		(b): b is Keybinding =>
+			b !== null &&
+			typeof b === "object" &&
+			typeof b.key === "string" &&
+			typeof b.command === "string",
+	);
+}
+
+/**
+ * Gets the inherited keybindings organized by parent profile.
+ *
+ * Keybindings are collected from every ancestor of the current profile. A
+ * keybinding (identified by its `key`, `command` and `when` clause) declared by
+ * a closer profile shadows the same keybinding from more distant profiles, and
+ * local keybindings (including `-command` removals) shadow inherited ones.
+ * @param context Extension context.
+ * @returns Map of profile name to the keybindings inherited from that profile.
+ * The current profile's local keybindings are included as well.
+ */
+export async function getInheritedKeybindingsByParent(
+	context: vscode.ExtensionContext,
+): Promise<Map<string, Keybinding[]>> {
+	const currentProfileName = await getCurrentProfileName(context);
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	const parents = config.get<string[]>("parents", []);
+	const { order } = await resolveProfileHierarchy(
+		context,
+		currentProfileName,
+		parents,
+	);
+	const profileMap = await getProfileMap(context);
+
+	const byParent = new Map<string, Keybinding[]>();
+
+	const currentProfilePath = profileMap[currentProfileName];
+	const local = currentProfilePath
+		? await readLocalKeybindings(
+				context,
+				currentProfileName,
+				path.join(currentProfilePath, "keybindings.json"),
+			)
+		: [];
+	if (local.length > 0) {
+		byParent.set(currentProfileName, local);
+	}
+
+	// Process each ancestor in REVERSE order (closest first, to allow overrides)
+	const alreadyInherited = new Set<string>();
+	for (const profileName of [...order].reverse()) {
+		const profilePath = profileMap[profileName];
+		if (!profilePath) continue;
+
+		const bindings = await readLocalKeybindings(
+			context,
+			profileName,
+			path.join(profilePath, "keybindings.json"),
+		);
+
+		const newFromThisParent: Keybinding[] = [];
+		for (const binding of bindings) {
+			const id = getKeybindingId(binding);
+			if (alreadyInherited.has(id) || isShadowedLocally(binding, local)) {
+				continue;
+			}
+			alreadyInherited.add(id);
+			newFromThisParent.push(binding);
+		}
+
+		if (newFromThisParent.length > 0) {
+			byParent.set(profileName, newFromThisParent);
+		}
+	}
+
+	return byParent;
+}
+
+/**
+ * Adds a set of inherited keybindings to a raw `keybindings.json` file.
+ *
+ * Inherited keybindings are placed at the start of the array, since VS Code
+ * gives priority to keybindings that appear later in the file. This way the
+ * local keybindings always take priority over the inherited ones.
+ *
+ * IMPORTANT: This function assumes that there are no inherited keybindings in
+ * `raw`. Any inherited keybindings should be removed before calling this
+ * function.
+ * @returns Returns the raw file with the inherited keybindings.
+ */
+export function addInheritedKeybindings(
+	raw: string,
+	groups: Array<{ name: string; keybindings: Keybinding[] }>,
+	currentProfileName: string,
+): string {
+	if (!raw.trim()) {
+		raw = "[\n]\n";
+	}
+	const tab = findTabValue(raw);
+
+	const openIndex = findOpeningBracket(raw);
+	if (openIndex === -1) {
+		Logger.warn(
+			"No opening bracket found in keybindings.json, skipping",
+			"Keybindings",
+		);
+		return raw;
+	}
+	const before = raw.slice(0, openIndex + 1);
+	let after = raw.slice(openIndex + 1);
+
+	// 1. Ensure the "Current" header exists for local keybindings
+	const currentHeader = `// --- ${currentProfileName} (current) --- //`;
+	if (!after.includes(currentHeader)) {
+		after = `\n${tab}${currentHeader}${after}`;
+	}
+
+	// 2. Prepend inherited groups
+	const hasLocal = ((parse(raw) as unknown[] | undefined) ?? []).length > 0;
+	const lines: string[] = [];
+	groups.forEach((group, index) => {
+		lines.push(`${tab}// --- ${group.name} --- //`);
+		group.keybindings.forEach((binding, entryIdx) => {
+			const isLastOfAll =
+				index === groups.length - 1 &&
+				entryIdx === group.keybindings.length - 1;
+			const suffix = isLastOfAll && !hasLocal ? "" : ",";
+			lines.push(`${tab}${JSON.stringify(binding)}${suffix}`);
+		});
+		lines.push(""); // Empty line for spacing between groups
+	});
+
+	if (lines.length === 0) {
+		return before + after;
+	}
+	return `${before}\n${lines.join("\n")}\n${after.replace(/^\n/, "")}`;
+}
+
+/**
+ * Result of computing the inherited keybindings of the current profile,
+ * without writing anything to disk.
+ */
+export interface KeybindingsUpdate {
+	/**
+	 * Path to the `keybindings.json` file of the current profile.
+	 */
+	keybindingsPath: string;
+	/**
+	 * Current content of the `keybindings.json` file.
+	 */
+	original: string;
+	/**
+	 * Content the `keybindings.json` file would have after syncing.
+	 */
+	updated: string;
+	byParent: Map<string, Keybinding[]>;
+	/**
+	 * Inherited keybindings written by the update, to be tracked once written.
+	 */
+	tracking: KeybindingsTracking;
+}
+
+/**
+ * Computes the content the current profile `keybindings.json` would have once
+ * the inherited keybindings are applied, without writing it.
+ * @param context Extension context.
+ * @returns Returns the computed update, or `undefined` if the current profile
+ * cannot be found.
+ */
+export async function computeKeybindingsUpdate(
+	context: vscode.ExtensionContext,
+): Promise<KeybindingsUpdate | undefined> {
+	const currentProfileName = await getCurrentProfileName(context);
+	const profileMap = await getProfileMap(context);
+	const currentProfileDirectory = profileMap[currentProfileName];
+	if (!currentProfileDirectory) {
+		Logger.error(
+			`Unable to find current profile directory for \`${currentProfileName}\` profile`,
+			undefined,
+			"Keybindings",
+		);
+		return undefined;
+	}
+	const keybindingsPath = path.join(
+		currentProfileDirectory,
+		"keybindings.json",
+	);
+
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	const parents = config.get<string[]>("parents", []);
+	const { order } = await resolveProfileHierarchy(
+		context,
+		currentProfileName,
+		parents,
+	);
+
+	// NOTE: The keybindings file does not exist until a keybinding is added.
+	let original = "";
+	try {
+		original = await fs.readFile(keybindingsPath, "utf8");
+	} catch {
+		// Created below
+	}
+
+	// Remove the inherited keybindings from the current profile:
+	const cleaned = removeInheritedKeybindings(
+		original,
+		await readKeybindingsTracking(context, currentProfileName),
+	);
+
+	const byParent = await getInheritedKeybindingsByParent(context);
+	const groups: Array<{ name: string; keybindings: Keybinding[] }> = [];
+	for (const parent of order) {
+		const keybindings = byParent.get(parent);
+		if (keybindings && keybindings.length > 0) {
+			groups.push({ name: parent, keybindings });
+		}
+	}
+
+	// Do not create a keybindings file when there is nothing to inherit:
+	const updated =
+		groups.length === 0 && !original.trim()
+			? original
+			: addInheritedKeybindings(cleaned, groups, currentProfileName);
+	return {
+		keybindingsPath,
+		original,
+		updated,
+		byParent,
+		tracking: { groups },
+	};
+}
+
+/**
+ * Applies the inherited keybindings to the current profile.
+ * @param context Extension context.
+ */
+export async function syncKeybindings(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	if (!config.get<boolean>("keybindings", true)) {
+		return;
+	}
+
+	const update = await computeKeybindingsUpdate(context);
+	if (!update) {
+		return;
+	}
+
+	Reporter.trackKeybindingsByParent(update.byParent);
+
+	if (update.original === update.updated) {
+		Logger.info("Keybindings already up to date.", "Keybindings");
+		return;
+	}
+
+	const currentProfileName = await getCurrentProfileName(context);
+	let total = 0;
+	for (const [name, bindings] of update.byParent) {
+		if (name !== currentProfileName) {
+			total += bindings.length;
+		}
+	}
+	Logger.info(`Inheriting ${total} keybindings from parents`, "Keybindings");
+
+	await fs.writeFile(update.keybindingsPath, update.updated, "utf8");
+	await writeKeybindingsTracking(context, currentProfileName, update.tracking);
+}
+
+/**
+ * Removes every keybinding group inheritance wrote to the current profile,
+ * including the groups of profiles that are no longer parents, were renamed or
+ * were deleted since. The current profile's own keybindings are kept.
+ * @param context Extension context.
+ */
+export async function detachKeybindings(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	const currentProfileName = await getCurrentProfileName(context);
+	const profileMap = await getProfileMap(context);
+	const currentProfileDirectory = profileMap[currentProfileName];
+	if (!currentProfileDirectory) {
+		return;
+	}
+	const keybindingsPath = path.join(
+		currentProfileDirectory,
+		"keybindings.json",
+	);
+
+	const tracking = await readKeybindingsTracking(context, currentProfileName);
+	if (!tracking || tracking.groups.length === 0) {
+		return; // Nothing inherited
+	}
+
+	let original: string;
+	try {
+		original = await fs.readFile(keybindingsPath, "utf8");
+	} catch {
+		return; // No keybindings
+	}
+
+	const updated = removeInheritedKeybindings(original, tracking);
+	if (updated !== original) {
+		Logger.info("Removed the inherited keybindings", "Keybindings");
+		await fs.writeFile(keybindingsPath, updated, "utf8");
+	}
+	await writeKeybindingsTracking(context, currentProfileName, { groups: [] });
+}
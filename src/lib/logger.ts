@@ -8,6 +8,9 @@ function getTimestamp(): string {
 
 export const Logger = {
 	initialize(context: vscode.ExtensionContext) {
+		if (channel) {
+			return;
+		}
 		channel = vscode.window.createOutputChannel("Inherit Profile");
 		context.subscriptions.push(channel);
 	},
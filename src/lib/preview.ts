@@ -0,0 +1,72 @@
+import * as vscode from "vscode";
+
+/**
+ * URI scheme used for the in-memory preview documents.
+ */
+export const PREVIEW_SCHEME = "inherit-profile-preview";
+
+const contents = new Map<string, string>();
+const onDidChange = new vscode.EventEmitter<vscode.Uri>();
+
+/**
+ * Registers the provider serving the in-memory preview documents.
+ * @param context Extension context.
+ */
+export function registerPreviewProvider(context: vscode.ExtensionContext) {
+	context.subscriptions.push(
+		onDidChange,
+		vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+			onDidChange: onDidChange.event,
+			provideTextDocumentContent(uri: vscode.Uri): string {
+				return contents.get(uri.toString()) ?? "";
+			},
+		}),
+	);
+}
+
+/**
+ * Opens a diff editor comparing a file on disk with the content it would have
+ * once updated.
+ * @param fileUri File on disk.
+ * @param content Content the file would have.
+ * @param title Title of the diff editor.
+ */
+export async function showPreviewDiff(
+	fileUri: vscode.Uri,
+	content: string,
+	title: string,
+): Promise<void> {
+	const previewUri = vscode.Uri.from({
+		scheme: PREVIEW_SCHEME,
+		path: fileUri.path,
+	});
+	contents.set(previewUri.toString(), content);
+	onDidChange.fire(previewUri);
+
+	await vscode.commands.executeCommand(
+		"vscode.diff",
+		fileUri,
+		previewUri,
+		title,
+		{ preview: true },
+	);
+}
+
+/**
+ * Opens the Markdown preview of an in-memory document.
+ * @param name Name of the document.
+ * @param content Markdown content of the document.
+ */
+export async function showMarkdownPreview(
+	name: string,
+	content: string,
+): Promise<void> {
+	const previewUri = vscode.Uri.from({
+		scheme: PREVIEW_SCHEME,
+		path: `/${name}.md`,
+	});
+	contents.set(previewUri.toString(), content);
+	onDidChange.fire(previewUri);
+
+	await vscode.commands.executeCommand("markdown.showPreview", previewUri);
+}
@@ -0,0 +1,304 @@
+import * as path from "node:path";
+import { parse } from "jsonc-parser";
+import * as vscode from "vscode";
+import { writeSettingsFile } from "./backups.js";
+import { readDeclaredParents, resolveProfileHierarchy } from "./hierarchy.js";
+import { Logger } from "./logger.js";
+import { getCurrentProfileName, getProfileMap } from "./profileDiscovery.js";
+import { loadSettingsSchema } from "./settingsSchema.js";
+import {
+	editJSONC,
+	findSettingAtOffset,
+	findSettingPath,
+	readSettingsTracking,
+	type SettingsTracking,
+	type TrackedSetting,
+	writeSettingsTracking,
+} from "./settingsTracking.js";
+import { flattenSettings, splitOverrideKey } from "./utils.js";
+
+/**
+ * A setting under the cursor of a profile's `settings.json` file.
+ */
+interface SettingAtCursor {
+	profileName: string;
+	settingsPath: string;
+	/**
+	 * Raw `settings.json` file.
+	 */
+	raw: string;
+	/**
+	 * Flattened setting key.
+	 */
+	key: string;
+	/**
+	 * Location of the setting in the file.
+	 */
+	path: string[];
+	value: unknown;
+}
+
+/**
+ * Gets the setting under the cursor of the active editor, if it is the
+ * `settings.json` file of a profile.
+ *
+ * Shows an error message if there is no such setting.
+ * @param context Extension context.
+ */
+async function getSettingAtCursor(
+	context: vscode.ExtensionContext,
+): Promise<SettingAtCursor | undefined> {
+	const editor = vscode.window.activeTextEditor;
+	const profileMap = await getProfileMap(context);
+	const profileName =
+		editor &&
+		Object.keys(profileMap).find(
+			(name) =>
+				path.join(profileMap[name], "settings.json") ===
+				editor.document.uri.fsPath,
+		);
+	if (!editor || !profileName) {
+		vscode.window.showErrorMessage(
+			"Open the settings.json file of a profile and place the cursor on a setting.",
+		);
+		return undefined;
+	}
+	if (editor.document.isDirty) {
+		vscode.window.showErrorMessage("Save settings.json first.");
+		return undefined;
+	}
+
+	// Needed to tell object-valued settings apart from setting sections:
+	await loadSettingsSchema();
+
+	const raw = editor.document.getText();
+	const settings = flattenSettings(
+		(parse(raw) ?? {}) as Record<string, unknown>,
+	);
+	const found = findSettingAtOffset(
+		raw,
+		editor.document.offsetAt(editor.selection.active),
+		settings,
+	);
+	if (found) {
+		return {
+			profileName,
+			settingsPath: editor.document.uri.fsPath,
+			raw,
+			...found,
+			value: settings[found.key],
+		};
+	}
+
+	vscode.window.showErrorMessage("Place the cursor on a setting first.");
+	return undefined;
+}
+
+/**
+ * Finds the tracked inherited setting with a given key, if it still has the
+ * value that was written.
+ * @param tracking Inherited settings written by the last sync.
+ * @param key Flattened setting key.
+ * @param value Current value of the setting.
+ */
+function findTrackedSetting(
+	tracking: SettingsTracking | undefined,
+	key: string,
+	value: unknown,
+): TrackedSetting | undefined {
+	return tracking?.settings.find(
+		(setting) =>
+			setting.path.join(".") === key &&
+			JSON.stringify(setting.value) === JSON.stringify(value),
+	);
+}
+
+/**
+ * Turns the inherited setting under the cursor into a local setting of its
+ * profile, so that it is no longer overwritten by its parents.
+ * @param context Extension context.
+ */
+export async function demoteSettingAtCursor(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	const setting = await getSettingAtCursor(context);
+	if (!setting) {
+		return;
+	}
+
+	const tracking = await readSettingsTracking(context, setting.profileName);
+	const tracked = findTrackedSetting(tracking, setting.key, setting.value);
+	if (!tracking || !tracked) {
+		vscode.window.showInformationMessage(
+			`'${setting.key}' is already a local setting of '${setting.profileName}'.`,
+		);
+		return;
+	}
+
+	// Untracked settings are never removed by a sync, the value in the file
+	// simply stays there:
+	await writeSettingsTracking(context, setting.profileName, {
+		...tracking,
+		settings: tracking.settings.filter((s) => s !== tracked),
+	});
+
+	Logger.info(
+		`'${setting.key}' inherited from '${tracked.source}' is now a local setting of '${setting.profileName}'`,
+		"Settings",
+	);
+	vscode.window.showInformationMessage(
+		`'${setting.key}' is now a local setting of '${setting.profileName}' and will no longer be inherited from '${tracked.source}'.`,
+	);
+}
+
+/**
+ * Moves the local setting under the cursor to one of the ancestors of its
+ * profile, so that every profile inheriting from that ancestor inherits it.
+ *
+ * Both `settings.json` files are backed up before being written.
+ * @param context Extension context.
+ * @returns Returns `true` if the setting was moved out of the current profile,
+ * which must then be synced to inherit it back. Other profiles inherit it back
+ * at their next sync.
+ */
+export async function promoteSettingAtCursor(
+	context: vscode.ExtensionContext,
+): Promise<boolean> {
+	const setting = await getSettingAtCursor(context);
+	if (!setting) {
+		return false;
+	}
+
+	const tracking = await readSettingsTracking(context, setting.profileName);
+	const tracked = findTrackedSetting(tracking, setting.key, setting.value);
+	if (tracked) {
+		vscode.window.showInformationMessage(
+			`'${setting.key}' is inherited from '${tracked.source}', only local settings can be moved to a parent profile.`,
+		);
+		return false;
+	}
+
+	// Suggest the closest ancestors first:
+	const profileMap = await getProfileMap(context);
+	const parents = await readDeclaredParents(
+		context,
+		setting.profileName,
+		profileMap[setting.profileName],
+		Object.keys(profileMap),
+	);
+	const { order } = await resolveProfileHierarchy(
+		context,
+		setting.profileName,
+		parents,
+	);
+	const ancestors = [...order].reverse().filter((name) => profileMap[name]);
+	if (ancestors.length === 0) {
+		vscode.window.showInformationMessage(
+			`Profile '${setting.profileName}' does not inherit from any profile.`,
+		);
+		return false;
+	}
+	const parentName =
+		ancestors.length === 1
+			? ancestors[0]
+			: await vscode.window.showQuickPick(ancestors, {
+					placeHolder: `Select the profile to move '${setting.key}' to`,
+				});
+	if (!parentName) {
+		return false;
+	}
+
+	const parentSettingsPath = path.join(profileMap[parentName], "settings.json");
+	let parentRaw = "";
+	try {
+		parentRaw = new TextDecoder().decode(
+			await vscode.workspace.fs.readFile(vscode.Uri.file(parentSettingsPath)),
+		);
+	} catch {
+		// Created below
+	}
+	if (!parentRaw.trim()) {
+		parentRaw = "{\n}\n";
+	}
+
+	// The parent may already declare the setting, either as its own setting or
+	// as one it inherited:
+	const parentTracking = await readSettingsTracking(context, parentName);
+	const parentSettings = flattenSettings(
+		(parse(parentRaw) ?? {}) as Record<string, unknown>,
+	);
+	const parentValue = parentSettings[setting.key];
+	const parentTracked = findTrackedSetting(
+		parentTracking,
+		setting.key,
+		parentValue,
+	);
+	if (
+		Object.hasOwn(parentSettings, setting.key) &&
+		!parentTracked &&
+		JSON.stringify(parentValue) !== JSON.stringify(setting.value)
+	) {
+		const choice = await vscode.window.showWarningMessage(
+			`'${parentName}' already sets '${setting.key}' to ${JSON.stringify(parentValue)}. Replace it with ${JSON.stringify(setting.value)}?`,
+			{ modal: true },
+			"Replace",
+		);
+		if (choice !== "Replace") {
+			return false;
+		}
+	}
+
+	const { override, key } = splitOverrideKey(setting.key);
+	const parentPath =
+		findSettingPath(parentRaw, setting.key) ??
+		(override ? [override, key] : [key]);
+	const parentUpdated = editJSONC(parentRaw, parentPath, setting.value);
+	const updated = editJSONC(setting.raw, setting.path, undefined);
+
+	try {
+		await writeSettingsFile(
+			context,
+			parentName,
+			parentSettingsPath,
+			parentUpdated,
+		);
+		// The setting now belongs to the parent itself:
+		if (parentTracking && parentTracked) {
+			await writeSettingsTracking(context, parentName, {
+				...parentTracking,
+				settings: parentTracking.settings.filter((s) => s !== parentTracked),
+			});
+		}
+		await writeSettingsFile(
+			context,
+			setting.profileName,
+			setting.settingsPath,
+			updated,
+		);
+	} catch (error) {
+		Logger.error(
+			`Failed to move '${setting.key}' to '${parentName}':`,
+			error,
+			"Settings",
+		);
+		vscode.window.showErrorMessage(
+			`Failed to move '${setting.key}' to '${parentName}'.`,
+		);
+		return false;
+	}
+
+	Logger.info(
+		`Moved '${setting.key}' from '${setting.profileName}' to '${parentName}'`,
+		"Settings",
+	);
+	if (setting.profileName === (await getCurrentProfileName(context))) {
+		vscode.window.showInformationMessage(
+			`Moved '${setting.key}' from '${setting.profileName}' to '${parentName}'.`,
+		);
+		return true;
+	}
+	vscode.window.showInformationMessage(
+		`Moved '${setting.key}' from '${setting.profileName}' to '${parentName}'. '${setting.profileName}' inherits it back at its next sync.`,
+	);
+	return false;
+}
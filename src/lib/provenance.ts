@@ -0,0 +1,288 @@
+import * as path from "node:path";
+import { findNodeAtLocation, type Node, parse, parseTree } from "jsonc-parser";
+import * as vscode from "vscode";
+import { getCurrentProfileName, getProfileMap } from "./profileDiscovery.js";
+import { getInheritedSettingsByParent } from "./settings.js";
+import { findSettingAtOffset, findSettingPath } from "./settingsTracking.js";
+import { flattenSettings } from "./utils.js";
+
+/**
+ * Where the value of a setting of the current profile comes from.
+ */
+interface SettingProvenance {
+	/**
+	 * Profile the value is inherited from, or `undefined` for a local setting.
+	 */
+	source?: string;
+	/**
+	 * Every ancestor declaring the setting, closest first.
+	 */
+	definedBy: Array<{ profile: string; value: unknown }>;
+}
+
+/**
+ * Provenance of the settings of the current profile.
+ */
+interface ProfileProvenance {
+	profileName: string;
+	settingsPath: string;
+	settings: Map<string, SettingProvenance>;
+}
+
+/**
+ * Provenance of the current profile, computed on demand and cleared whenever a
+ * `settings.json` file changes on disk or a sync completes.
+ */
+let cache:
+	| { profileName: string; provenance: Promise<ProfileProvenance | undefined> }
+	| undefined;
+const onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+
+/**
+ * Clears the provenance of the current profile and refreshes the CodeLenses,
+ * e.g. after a sync.
+ */
+export function refreshProvenance() {
+	cache = undefined;
+	onDidChangeCodeLenses.fire();
+}
+
+/**
+ * Computes where the settings of the current profile come from.
+ * @param context Extension context.
+ * @param profileName Name of the current profile.
+ */
+async function computeProvenance(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): Promise<ProfileProvenance | undefined> {
+	const profileMap = await getProfileMap(context);
+	const profilePath = profileMap[profileName];
+	if (!profilePath) {
+		return undefined;
+	}
+
+	const { byParent, ancestorSettings } =
+		await getInheritedSettingsByParent(context);
+	const closestFirst = [...ancestorSettings].reverse();
+
+	// NOTE: The local settings come first in `byParent`, and take priority.
+	const settings = new Map<string, SettingProvenance>();
+	for (const [profile, profileSettings] of byParent) {
+		for (const key of Object.keys(profileSettings)) {
+			if (settings.has(key)) {
+				continue;
+			}
+			settings.set(key, {
+				source: profile === profileName ? undefined : profile,
+				definedBy: closestFirst
+					.filter(([, ancestor]) => Object.hasOwn(ancestor, key))
+					.map(([name, ancestor]) => ({
+						profile: name,
+						value: ancestor[key],
+					})),
+			});
+		}
+	}
+
+	return {
+		profileName,
+		settingsPath: path.join(profilePath, "settings.json"),
+		settings,
+	};
+}
+
+/**
+ * Gets the provenance of the settings in a document, if it is the
+ * `settings.json` file of the current profile.
+ * @param context Extension context.
+ * @param document Document to get the provenance of.
+ */
+async function getProvenance(
+	context: vscode.ExtensionContext,
+	document: vscode.TextDocument,
+): Promise<ProfileProvenance | undefined> {
+	const profileName = await getCurrentProfileName(context);
+	if (cache?.profileName !== profileName) {
+		cache = {
+			profileName,
+			provenance: computeProvenance(context, profileName),
+		};
+	}
+	const provenance = await cache.provenance;
+	return provenance?.settingsPath === document.uri.fsPath
+		? provenance
+		: undefined;
+}
+
+/**
+ * Gets the property node of a setting in a parsed `settings.json` file.
+ * @param root Root node of the file.
+ * @param raw Raw `settings.json` file.
+ * @param key Flattened setting key.
+ */
+function findSettingProperty(
+	root: Node | undefined,
+	raw: string,
+	key: string,
+): Node | undefined {
+	const settingPath = findSettingPath(raw, key);
+	return root && settingPath
+		? findNodeAtLocation(root, settingPath)?.parent
+		: undefined;
+}
+
+/**
+ * Formats a setting value for a hover.
+ */
+function formatValue(value: unknown): string {
+	return `\`${JSON.stringify(value)}\``;
+}
+
+/**
+ * Builds the hover of a setting.
+ * @param key Flattened setting key.
+ * @param provenance Provenance of the setting.
+ * @param profileName Name of the current profile.
+ */
+function buildHover(
+	key: string,
+	provenance: SettingProvenance,
+	profileName: string,
+): vscode.MarkdownString {
+	const md = new vscode.MarkdownString();
+	if (provenance.source) {
+		md.appendMarkdown(
+			`**\`${key}\`** is inherited from **${provenance.source}**\n\n`,
+		);
+	} else if (provenance.definedBy.length > 0) {
+		md.appendMarkdown(
+			`**\`${key}\`** is a local setting of **${profileName}**, overriding the inherited values\n\n`,
+		);
+	} else {
+		md.appendMarkdown(
+			`**\`${key}\`** is a local setting of **${profileName}**\n\n`,
+		);
+	}
+
+	for (const { profile, value } of provenance.definedBy) {
+		const state = profile === provenance.source ? "in use" : "shadowed";
+		md.appendMarkdown(`- ${profile}: ${formatValue(value)} _(${state})_\n`);
+	}
+	return md;
+}
+
+/**
+ * Gets the CodeLens title of a setting, if it has one.
+ * @param provenance Provenance of the setting.
+ */
+function getCodeLensTitle(provenance: SettingProvenance): string | undefined {
+	const shadowed = provenance.definedBy
+		.map(({ profile }) => profile)
+		.filter((profile) => profile !== provenance.source);
+	if (provenance.source) {
+		return shadowed.length > 0
+			? `Inherited from ${provenance.source} (shadows ${shadowed.join(", ")})`
+			: `Inherited from ${provenance.source}`;
+	}
+	return shadowed.length > 0 ? `Overrides ${shadowed.join(", ")}` : undefined;
+}
+
+/**
+ * Registers the hover and CodeLens providers showing where the settings of the
+ * current profile's `settings.json` file come from: the parent a setting is
+ * inherited from, the values of the other ancestors it shadows, and the
+ * inherited values a local setting overrides.
+ * @param context Extension context.
+ */
+export function registerProvenanceProviders(context: vscode.ExtensionContext) {
+	const selector: vscode.DocumentSelector = {
+		scheme: "file",
+		pattern: "**/settings.json",
+	};
+
+	context.subscriptions.push(
+		onDidChangeCodeLenses,
+		vscode.languages.registerHoverProvider(selector, {
+			async provideHover(document, position) {
+				const provenance = await getProvenance(context, document);
+				if (!provenance) {
+					return undefined;
+				}
+
+				const raw = document.getText();
+				const found = findSettingAtOffset(
+					raw,
+					document.offsetAt(position),
+					flattenSettings((parse(raw) ?? {}) as Record<string, unknown>),
+				);
+				const setting = found && provenance.settings.get(found.key);
+				if (!found || !setting) {
+					return undefined;
+				}
+
+				const property = findSettingProperty(parseTree(raw), raw, found.key);
+				const keyNode = property?.children?.[0];
+				return new vscode.Hover(
+					buildHover(found.key, setting, provenance.profileName),
+					keyNode &&
+						new vscode.Range(
+							document.positionAt(keyNode.offset),
+							document.positionAt(keyNode.offset + keyNode.length),
+						),
+				);
+			},
+		}),
+		vscode.languages.registerCodeLensProvider(selector, {
+			onDidChangeCodeLenses: onDidChangeCodeLenses.event,
+			async provideCodeLenses(document) {
+				const config = vscode.workspace.getConfiguration("inheritProfile");
+				if (!config.get<boolean>("provenanceCodeLens", true)) {
+					return [];
+				}
+				const provenance = await getProvenance(context, document);
+				if (!provenance) {
+					return [];
+				}
+
+				const raw = document.getText();
+				const root = parseTree(raw);
+				const lenses: vscode.CodeLens[] = [];
+				for (const [key, setting] of provenance.settings) {
+					const title = getCodeLensTitle(setting);
+					const property = title && findSettingProperty(root, raw, key);
+					if (!title || !property) {
+						continue;
+					}
+					const position = document.positionAt(property.offset);
+					lenses.push(
+						new vscode.CodeLens(new vscode.Range(position, position), {
+							title,
+							command: "",
+						}),
+					);
+				}
+				return lenses;
+			},
+		}),
+		// Syncs and edits to other profiles change the provenance:
+		vscode.workspace.onDidSaveTextDocument((document) => {
+			if (path.basename(document.uri.fsPath) === "settings.json") {
+				refreshProvenance();
+			}
+		}),
+		vscode.workspace.onDidChangeTextDocument(({ document }) => {
+			if (
+				!document.isDirty &&
+				path.basename(document.uri.fsPath) === "settings.json"
+			) {
+				refreshProvenance();
+			}
+		}),
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			if (event.affectsConfiguration("inheritProfile")) {
+				refreshProvenance();
+			}
+		}),
+	);
+}
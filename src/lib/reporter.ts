@@ -1,25 +1,99 @@
 import * as vscode from "vscode";
+import type { FilteredExtension, VersionMismatch } from "./extensions.js";
+import type { ProfileHierarchy } from "./hierarchy.js";
+import type { Keybinding } from "./keybindings.js";
+import { showMarkdownPreview } from "./preview.js";
 import { getCurrentProfileName } from "./profileDiscovery.js";
+import type { FilteredSetting, SettingConflict } from "./settings.js";
 
 interface ExtensionData {
 	byParent: Map<string, string[]>;
 	installed: string[];
 	failed: string[];
+	/**
+	 * Previously inherited extensions that are no longer in any parent.
+	 */
+	removed: string[];
+	uninstalled: string[];
+	/**
+	 * Inherited extensions that are disabled in the parent they come from.
+	 */
+	disabled: string[];
+	filtered: FilteredExtension[];
+	versionMismatches: VersionMismatch[];
 }
 
 interface SettingsData {
 	byParent: Map<string, Record<string, string>>;
+	filtered: FilteredSetting[];
+	conflicts: SettingConflict[];
+	total: number;
+}
+
+interface HierarchyData {
+	ancestors: string[];
+	cycles: string[][];
+	missing: string[];
+}
+
+interface KeybindingsData {
+	byParent: Map<string, Keybinding[]>;
+	total: number;
+}
+
+interface SnippetsData {
+	byParent: Map<string, string[]>;
 	total: number;
 }
 
 interface SyncData {
 	profileName: string;
 	parents: string[];
+	hierarchy: HierarchyData;
 	extensions: ExtensionData;
 	settings: SettingsData;
+	keybindings: KeybindingsData;
+	snippets: SnippetsData;
+	warnings: string[];
 	timestamp: Date;
 }
 
+/**
+ * Machine-readable report of a sync, written as JSON next to the Markdown
+ * report.
+ */
+export interface SyncReport {
+	/**
+	 * Version of the report format.
+	 */
+	version: 1;
+	profileName: string;
+	parents: string[];
+	/**
+	 * ISO date the sync started at.
+	 */
+	startedAt: string;
+	/**
+	 * ISO date the sync finished at.
+	 */
+	finishedAt: string;
+	durationMs: number;
+	hierarchy: HierarchyData;
+	extensions: Omit<ExtensionData, "byParent"> & {
+		byParent: Record<string, string[]>;
+	};
+	settings: Omit<SettingsData, "byParent"> & {
+		byParent: Record<string, Record<string, string>>;
+	};
+	keybindings: Omit<KeybindingsData, "byParent"> & {
+		byParent: Record<string, Keybinding[]>;
+	};
+	snippets: Omit<SnippetsData, "byParent"> & {
+		byParent: Record<string, string[]>;
+	};
+	warnings: string[];
+}
+
 export const Reporter = {
 	data: createEmptyData(),
 
@@ -30,13 +104,44 @@ export const Reporter = {
 		Reporter.data.timestamp = new Date();
 	},
 
+	trackHierarchy(hierarchy: ProfileHierarchy) {
+		Reporter.data.hierarchy = {
+			ancestors: hierarchy.order,
+			cycles: hierarchy.cycles,
+			missing: hierarchy.missing,
+		};
+	},
+
 	trackExtensionsByParent(byParent: Map<string, string[]>) {
 		Reporter.data.extensions.byParent = byParent;
 	},
 
-	trackExtensionResult(id: string, status: "installed" | "failed" | "added") {
+	trackFilteredExtensions(filtered: FilteredExtension[]) {
+		Reporter.data.extensions.filtered = filtered;
+	},
+
+	trackVersionMismatches(mismatches: VersionMismatch[]) {
+		Reporter.data.extensions.versionMismatches = mismatches;
+	},
+
+	trackExtensionResult(
+		id: string,
+		status:
+			| "installed"
+			| "failed"
+			| "added"
+			| "removed"
+			| "uninstalled"
+			| "disabled",
+	) {
 		if (status === "failed") {
 			Reporter.data.extensions.failed.push(id);
+		} else if (status === "removed") {
+			Reporter.data.extensions.removed.push(id);
+		} else if (status === "uninstalled") {
+			Reporter.data.extensions.uninstalled.push(id);
+		} else if (status === "disabled") {
+			Reporter.data.extensions.disabled.push(id);
 		} else {
 			Reporter.data.extensions.installed.push(id);
 		}
@@ -51,6 +156,36 @@ export const Reporter = {
 		Reporter.data.settings.total = total;
 	},
 
+	trackFilteredSettings(filtered: FilteredSetting[]) {
+		Reporter.data.settings.filtered = filtered;
+	},
+
+	trackSettingConflicts(conflicts: SettingConflict[]) {
+		Reporter.data.settings.conflicts = conflicts;
+	},
+
+	trackKeybindingsByParent(byParent: Map<string, Keybinding[]>) {
+		Reporter.data.keybindings.byParent = byParent;
+		let total = 0;
+		for (const keybindings of byParent.values()) {
+			total += keybindings.length;
+		}
+		Reporter.data.keybindings.total = total;
+	},
+
+	trackSnippetsByParent(byParent: Map<string, string[]>) {
+		Reporter.data.snippets.byParent = byParent;
+		let total = 0;
+		for (const snippets of byParent.values()) {
+			total += snippets.length;
+		}
+		Reporter.data.snippets.total = total;
+	},
+
+	trackWarning(message: string) {
+		Reporter.data.warnings.push(message);
+	},
+
 	// Legacy methods for backward compatibility with tests
 	trackExtension(id: string, status: "added" | "failed") {
 		Reporter.trackExtensionResult(id, status);
@@ -94,6 +229,13 @@ export const Reporter = {
 
 		// Always write the File to disk (history)
 		await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content));
+		await vscode.workspace.fs.writeFile(
+			vscode.Uri.joinPath(reportsUri, filename.replace(/\.md$/, ".json")),
+			Buffer.from(
+				JSON.stringify(generateReport(Reporter.data, new Date()), null, "\t"),
+			),
+		);
+		await Reporter.pruneReports(context, Reporter.data.profileName);
 
 		// Show preview ONLY IF config is true
 		if (config.get<boolean>("showSummary", false)) {
@@ -101,48 +243,162 @@ export const Reporter = {
 		}
 	},
 
-	async showHistory(context: vscode.ExtensionContext) {
-		const currentProfile = await getCurrentProfileName(context);
-		const storageUri = context.globalStorageUri;
-		const reportsUri = vscode.Uri.joinPath(storageUri, "reports");
-
+	async listReports(
+		context: vscode.ExtensionContext,
+		profileName: string,
+		extension: ".md" | ".json" = ".md",
+	): Promise<string[]> {
+		const reportsUri = vscode.Uri.joinPath(context.globalStorageUri, "reports");
 		try {
 			const files = await vscode.workspace.fs.readDirectory(reportsUri);
-			// Filter files starting with profile name
-			const profilePrefix = `${currentProfile}_`;
+			// Match the whole name, so that e.g. "Work" excludes "Work_Laptop":
+			const profile = profileName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+			const pattern = new RegExp(
+				`^${profile}_\\d{4}-\\d{2}-\\d{2}_[\\d-]+Z\\${extension}$`,
+			);
 			const reportFiles = files
 				.filter(
-					([name, type]) =>
-						type === vscode.FileType.File &&
-						name.startsWith(profilePrefix) &&
-						name.endsWith(".md"),
+					([name, type]) => type === vscode.FileType.File && pattern.test(name),
 				)
 				.map(([name]) => name);
 
 			// Sort by date (descending)
-			// Filename format: Profile_YYYY-MM-DD_HH-mm-ss.md, which is naturally sortable
-			reportFiles.sort((a, b) => b.localeCompare(a));
+			// Filename format: Profile_YYYY-MM-DD_HH-mm-ss-SSSZ.md, which is naturally sortable
+			return reportFiles.sort((a, b) => b.localeCompare(a));
+		} catch {
+			return [];
+		}
+	},
+
+	async pruneReports(context: vscode.ExtensionContext, profileName: string) {
+		const config = vscode.workspace.getConfiguration("inheritProfile");
+		const { maxCount = 0, maxAgeDays = 0 } = config.get<{
+			maxCount?: number;
+			maxAgeDays?: number;
+		}>("reportRetention", {});
+		const reportsUri = vscode.Uri.joinPath(context.globalStorageUri, "reports");
+		const oldest = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+		const reports = await Reporter.listReports(context, profileName);
+		for (const [index, name] of reports.entries()) {
+			const fileUri = vscode.Uri.joinPath(reportsUri, name);
+			try {
+				const tooMany = maxCount > 0 && index >= maxCount;
+				const tooOld =
+					maxAgeDays > 0 &&
+					(await vscode.workspace.fs.stat(fileUri)).mtime < oldest;
+				if (!tooMany && !tooOld) {
+					continue;
+				}
+
+				await vscode.workspace.fs.delete(fileUri);
+				try {
+					await vscode.workspace.fs.delete(
+						vscode.Uri.joinPath(reportsUri, name.replace(/\.md$/, ".json")),
+					);
+				} catch {
+					// Reports written before JSON reports have no JSON file
+				}
+			} catch {
+				// Already removed
+			}
+		}
+	},
+
+	async compareReports(context: vscode.ExtensionContext) {
+		const currentProfile = await getCurrentProfileName(context);
+		// NOTE: Only JSON reports can be compared.
+		const reportFiles = await Reporter.listReports(
+			context,
+			currentProfile,
+			".json",
+		);
+		if (reportFiles.length < 2) {
+			vscode.window.showInformationMessage(
+				`At least two reports are needed to compare the syncs of '${currentProfile}'.`,
+			);
+			return;
+		}
 
-			if (reportFiles.length === 0) {
-				vscode.window.showInformationMessage(
-					`No history found for profile '${currentProfile}'.`,
+		const newer = await vscode.window.showQuickPick(reportFiles.slice(0, -1), {
+			placeHolder: `Select a report for '${currentProfile}' to compare`,
+		});
+		if (!newer) {
+			return;
+		}
+		const older = await vscode.window.showQuickPick(
+			reportFiles.slice(reportFiles.indexOf(newer) + 1),
+			{ placeHolder: `Select an earlier report to compare '${newer}' with` },
+		);
+		if (!older) {
+			return;
+		}
+
+		const reports: SyncReport[] = [];
+		for (const name of [older, newer]) {
+			const fileUri = vscode.Uri.joinPath(
+				context.globalStorageUri,
+				"reports",
+				name,
+			);
+			try {
+				reports.push(
+					JSON.parse(
+						new TextDecoder().decode(
+							await vscode.workspace.fs.readFile(fileUri),
+						),
+					),
 				);
+			} catch {
+				vscode.window.showErrorMessage(`Unable to read the report '${name}'.`);
 				return;
 			}
+		}
 
-			const selected = await vscode.window.showQuickPick(reportFiles, {
-				placeHolder: `Select a report for '${currentProfile}' to view`,
-			});
+		await showMarkdownPreview(
+			`${currentProfile} reports comparison`,
+			generateComparisonMarkdown(reports[0], reports[1]),
+		);
+	},
 
-			if (selected) {
-				const fileUri = vscode.Uri.joinPath(reportsUri, selected);
-				await vscode.commands.executeCommand("markdown.showPreview", fileUri);
-			}
-		} catch {
+	async showHistory(context: vscode.ExtensionContext) {
+		const currentProfile = await getCurrentProfileName(context);
+		const reportFiles = await Reporter.listReports(context, currentProfile);
+		if (reportFiles.length === 0) {
+			vscode.window.showInformationMessage(
+				`No history found for profile '${currentProfile}'.`,
+			);
+			return;
+		}
+
+		const selected = await vscode.window.showQuickPick(reportFiles, {
+			placeHolder: `Select a report for '${currentProfile}' to view`,
+		});
+
+		if (selected) {
+			const fileUri = vscode.Uri.joinPath(
+				context.globalStorageUri,
+				"reports",
+				selected,
+			);
+			await vscode.commands.executeCommand("markdown.showPreview", fileUri);
+		}
+	},
+
+	async showLatest(context: vscode.ExtensionContext, profileName: string) {
+		const [latest] = await Reporter.listReports(context, profileName);
+		if (!latest) {
 			vscode.window.showInformationMessage(
-				`No reports directory found for '${currentProfile}'.`,
+				`No history found for profile '${profileName}'.`,
 			);
+			return;
 		}
+		const fileUri = vscode.Uri.joinPath(
+			context.globalStorageUri,
+			"reports",
+			latest,
+		);
+		await vscode.commands.executeCommand("markdown.showPreview", fileUri);
 	},
 };
 
@@ -150,23 +406,208 @@ function createEmptyData(): SyncData {
 	return {
 		profileName: "Unknown",
 		parents: [],
+		hierarchy: {
+			ancestors: [],
+			cycles: [],
+			missing: [],
+		},
 		extensions: {
 			byParent: new Map(),
 			installed: [],
 			failed: [],
+			removed: [],
+			uninstalled: [],
+			disabled: [],
+			filtered: [],
+			versionMismatches: [],
 		},
 		settings: {
+			byParent: new Map(),
+			filtered: [],
+			conflicts: [],
+			total: 0,
+		},
+		keybindings: {
 			byParent: new Map(),
 			total: 0,
 		},
+		snippets: {
+			byParent: new Map(),
+			total: 0,
+		},
+		warnings: [],
 		timestamp: new Date(),
 	};
 }
 
+function generateReport(d: SyncData, finishedAt: Date): SyncReport {
+	return {
+		version: 1,
+		profileName: d.profileName,
+		parents: d.parents,
+		startedAt: d.timestamp.toISOString(),
+		finishedAt: finishedAt.toISOString(),
+		durationMs: finishedAt.getTime() - d.timestamp.getTime(),
+		hierarchy: d.hierarchy,
+		extensions: {
+			...d.extensions,
+			byParent: Object.fromEntries(d.extensions.byParent),
+		},
+		settings: {
+			...d.settings,
+			byParent: Object.fromEntries(d.settings.byParent),
+		},
+		keybindings: {
+			...d.keybindings,
+			byParent: Object.fromEntries(d.keybindings.byParent),
+		},
+		snippets: {
+			...d.snippets,
+			byParent: Object.fromEntries(d.snippets.byParent),
+		},
+		warnings: d.warnings,
+	};
+}
+
+/**
+ * Gets the inherited entries of a report, mapped to the profile they come from.
+ * The current profile's own entries are ignored.
+ */
+function getInheritedBySource<T>(
+	report: SyncReport,
+	byParent: Record<string, T>,
+	getEntries: (value: T) => Array<[string, unknown]>,
+): Map<string, { value: unknown; source: string }> {
+	const inherited = new Map<string, { value: unknown; source: string }>();
+	for (const [source, value] of Object.entries(byParent)) {
+		if (source === report.profileName) {
+			continue;
+		}
+		for (const [key, entryValue] of getEntries(value)) {
+			inherited.set(key, { value: entryValue, source });
+		}
+	}
+	return inherited;
+}
+
+/**
+ * Compares the inherited entries of two reports.
+ * @returns Returns the added, removed and changed entries, sorted by key.
+ */
+function compareInherited(
+	older: Map<string, { value: unknown; source: string }>,
+	newer: Map<string, { value: unknown; source: string }>,
+): Array<{
+	change: "added" | "removed" | "changed";
+	key: string;
+	older?: { value: unknown; source: string };
+	newer?: { value: unknown; source: string };
+}> {
+	const changes: ReturnType<typeof compareInherited> = [];
+	for (const key of new Set([...older.keys(), ...newer.keys()])) {
+		const before = older.get(key);
+		const after = newer.get(key);
+		if (!before) {
+			changes.push({ change: "added", key, newer: after });
+		} else if (!after) {
+			changes.push({ change: "removed", key, older: before });
+		} else if (
+			before.source !== after.source ||
+			JSON.stringify(before.value) !== JSON.stringify(after.value)
+		) {
+			changes.push({ change: "changed", key, older: before, newer: after });
+		}
+	}
+	return changes.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function generateComparisonMarkdown(
+	older: SyncReport,
+	newer: SyncReport,
+): string {
+	const changeLabels = {
+		added: "➕ Added",
+		removed: "➖ Removed",
+		changed: "✏️ Changed",
+	};
+	const formatValue = (entry?: { value: unknown }) => {
+		if (!entry) {
+			return "";
+		}
+		const valueStr = JSON.stringify(entry.value);
+		return `\`${valueStr.length > 50 ? `${valueStr.slice(0, 50)}...` : valueStr}\``;
+	};
+	const formatSource = (
+		before?: { source: string },
+		after?: { source: string },
+	) => {
+		const sources = [
+			...new Set([before?.source, after?.source].filter((s) => s)),
+		];
+		return sources.map((s) => `\`${s}\``).join(" → ");
+	};
+
+	let md = "# 🔍 Profile Sync Comparison\n\n";
+
+	md += "| | Earlier | Later |\n";
+	md += "| :--- | :--- | :--- |\n";
+	md += `| Date | ${new Date(older.startedAt).toLocaleString()} | ${new Date(newer.startedAt).toLocaleString()} |\n`;
+	md += `| Parents | ${older.parents.map((p) => `\`${p}\``).join(", ") || "None"} | ${newer.parents.map((p) => `\`${p}\``).join(", ") || "None"} |\n\n`;
+	md += "---\n\n";
+
+	// Settings Section
+	md += "## ⚙️ Settings\n\n";
+	const settingsChanges = compareInherited(
+		getInheritedBySource(older, older.settings.byParent, Object.entries),
+		getInheritedBySource(newer, newer.settings.byParent, Object.entries),
+	);
+	if (settingsChanges.length > 0) {
+		md += "| Change | Key | From | Earlier value | Later value |\n";
+		md += "| :--- | :--- | :--- | :--- | :--- |\n";
+		for (const {
+			change,
+			key,
+			older: before,
+			newer: after,
+		} of settingsChanges) {
+			md += `| ${changeLabels[change]} | \`${key}\` | ${formatSource(before, after)} | ${formatValue(before)} | ${formatValue(after)} |\n`;
+		}
+		md += "\n";
+	}
+	md += `**Summary:** ${settingsChanges.length} inherited settings changed\n\n`;
+
+	// Extensions Section
+	md += "## 🧩 Extensions\n\n";
+	const toEntries = (ids: string[]) =>
+		ids.map((id): [string, unknown] => [id, true]);
+	const extensionsChanges = compareInherited(
+		getInheritedBySource(older, older.extensions.byParent, toEntries),
+		getInheritedBySource(newer, newer.extensions.byParent, toEntries),
+	);
+	if (extensionsChanges.length > 0) {
+		md += "| Change | Extension ID | From |\n";
+		md += "| :--- | :--- | :--- |\n";
+		for (const {
+			change,
+			key,
+			older: before,
+			newer: after,
+		} of extensionsChanges) {
+			md += `| ${changeLabels[change]} | \`${key}\` | ${formatSource(before, after)} |\n`;
+		}
+		md += "\n";
+	}
+	md += `**Summary:** ${extensionsChanges.length} inherited extensions changed\n\n`;
+
+	return md;
+}
+
 function generateMarkdown(d: SyncData): string {
 	const time = d.timestamp.toLocaleString();
-	// Hierarchy: Child first, then Last Parent ... First Parent
-	const hierarchy = [d.profileName, ...d.parents.slice().reverse()];
+	// Hierarchy: Child first, then Closest Ancestor ... Most Distant Ancestor
+	const ancestors =
+		d.hierarchy.ancestors.length > 0 ? d.hierarchy.ancestors : d.parents;
+	const hierarchy = [d.profileName, ...ancestors.slice().reverse()];
 
 	let md = "# 📋 Profile Sync Summary\n\n";
 
@@ -187,6 +628,34 @@ function generateMarkdown(d: SyncData): string {
 	md += `| ${time} | \`${d.profileName}\` | ${parentsList || "None"} |\n\n`;
 	md += "---\n\n";
 
+	// Warnings Section
+	if (d.warnings.length > 0) {
+		md += "## ⚠️ Warnings\n\n";
+		for (const warning of d.warnings) {
+			md += `- ${warning}\n`;
+		}
+		md += "\n";
+	}
+
+	// Hierarchy Section
+	if (d.hierarchy.ancestors.length > d.parents.length) {
+		md += "## 🌳 Hierarchy\n\n";
+		md += `Resolved ancestors (lowest priority first): ${d.hierarchy.ancestors
+			.map((p) => `\`${p}\``)
+			.join(" → ")}\n\n`;
+	}
+
+	if (d.hierarchy.cycles.length > 0 || d.hierarchy.missing.length > 0) {
+		md += "## ⚠️ Hierarchy Issues\n\n";
+		for (const cycle of d.hierarchy.cycles) {
+			md += `- Cycle: ${cycle.map((p) => `\`${p}\``).join(" → ")}\n`;
+		}
+		for (const name of d.hierarchy.missing) {
+			md += `- Missing ancestor: \`${name}\`\n`;
+		}
+		md += "\n";
+	}
+
 	// Extensions Section
 	md += "## 🧩 Extensions\n\n";
 
@@ -215,6 +684,7 @@ function generateMarkdown(d: SyncData): string {
 			for (const id of exts) {
 				const isInstalled = d.extensions.installed.includes(id);
 				const isFailed = d.extensions.failed.includes(id);
+				const isDisabled = d.extensions.disabled.includes(id);
 
 				let state = "✅ Present";
 				if (isInstalled) {
@@ -222,6 +692,9 @@ function generateMarkdown(d: SyncData): string {
 				} else if (isFailed) {
 					state = "❌ Error";
 				}
+				if (isDisabled) {
+					state += " (⏸️ disabled in parent)";
+				}
 				md += `| \`${id}\` | ${state} |\n`;
 			}
 			md += "\n</details>\n\n";
@@ -233,6 +706,55 @@ function generateMarkdown(d: SyncData): string {
 		}
 	}
 
+	const removedExts = [
+		...d.extensions.uninstalled,
+		...d.extensions.removed.filter(
+			(id) => !d.extensions.uninstalled.includes(id),
+		),
+	];
+	if (removedExts.length > 0) {
+		md += "<details>\n";
+		md += `<summary>Removed from parents - ${removedExts.length} extensions</summary>\n\n`;
+
+		md += "| Extension ID | State |\n";
+		md += "| :--- | :--- |\n";
+		for (const id of removedExts) {
+			let state = "⚠️ No longer inherited";
+			if (d.extensions.uninstalled.includes(id)) {
+				state = "🗑️ Uninstalled";
+			} else if (d.extensions.failed.includes(id)) {
+				state = "❌ Error";
+			}
+			md += `| \`${id}\` | ${state} |\n`;
+		}
+		md += "\n</details>\n\n";
+	}
+
+	if (d.extensions.filtered.length > 0) {
+		md += "<details>\n";
+		md += `<summary>Filtered out - ${d.extensions.filtered.length} extensions</summary>\n\n`;
+
+		md += "| Extension ID | From | Reason |\n";
+		md += "| :--- | :--- | :--- |\n";
+		for (const { id, source, reason } of d.extensions.filtered) {
+			md += `| \`${id}\` | \`${source}\` | ${reason} |\n`;
+		}
+		md += "\n</details>\n\n";
+	}
+
+	if (d.extensions.versionMismatches.length > 0) {
+		md += "<details>\n";
+		md += `<summary>Version mismatches - ${d.extensions.versionMismatches.length} extensions</summary>\n\n`;
+
+		md += "| Extension ID | From | Parent version | Local version |\n";
+		md += "| :--- | :--- | :--- | :--- |\n";
+		for (const m of d.extensions.versionMismatches) {
+			const pinned = m.pinned ? " 📌" : "";
+			md += `| \`${m.id}\` | \`${m.source}\` | ${m.parentVersion}${pinned} | ${m.localVersion} |\n`;
+		}
+		md += "\n</details>\n\n";
+	}
+
 	const installedSummary =
 		newlyInstalledTotal > 0 ? ` (${newlyInstalledTotal} installed)` : "";
 	md += `**Summary:** ${totalExtensions} extensions, ${inheritedExtensions} inherited${installedSummary}\n\n`;
@@ -270,8 +792,107 @@ function generateMarkdown(d: SyncData): string {
 		}
 	}
 
+	if (d.settings.filtered.length > 0) {
+		md += "<details>\n";
+		md += `<summary>Filtered out - ${d.settings.filtered.length} settings</summary>\n\n`;
+
+		md += "| Key | From | Reason |\n";
+		md += "| :--- | :--- | :--- |\n";
+		for (const { key, source, reason } of d.settings.filtered) {
+			md += `| \`${key}\` | \`${source}\` | ${reason} |\n`;
+		}
+		md += "\n</details>\n\n";
+	}
+
 	md += `**Summary:** ${totalSettings} settings, ${inheritedSettings} inherited\n\n`;
 
+	// Conflicts Section
+	if (d.settings.conflicts.length > 0) {
+		md += "## ⚔️ Conflicts\n\n";
+		md +=
+			"Settings declared with different values by several profiles. The first value is the one used.\n\n";
+
+		md += "| Key | Used | Values |\n";
+		md += "| :--- | :--- | :--- |\n";
+		for (const { key, values, winner } of d.settings.conflicts) {
+			const valuesStr = values
+				.map(({ profile, value }) => {
+					const valueStr = JSON.stringify(value);
+					const escapedValue =
+						valueStr.length > 50 ? `${valueStr.slice(0, 50)}...` : valueStr;
+					const label =
+						profile === d.profileName ? `${profile} (current)` : profile;
+					return `\`${label}\`: \`${escapedValue}\``;
+				})
+				.join("<br>");
+			md += `| \`${key}\` | \`${winner}\` | ${valuesStr} |\n`;
+		}
+		md += "\n";
+	}
+
+	// Keybindings Section
+	if (d.keybindings.total > 0) {
+		md += "## ⌨️ Keybindings\n\n";
+
+		let inheritedKeybindings = 0;
+		for (const profile of hierarchy) {
+			const keybindings = d.keybindings.byParent.get(profile);
+			if (keybindings && keybindings.length > 0) {
+				const isChild = profile === d.profileName;
+				const label = isChild ? `${profile} (current)` : profile;
+
+				md += "<details>\n";
+				md += `<summary>From <strong>"${label}"</strong> - ${keybindings.length} keybindings</summary>\n\n`;
+
+				md += "| Key | Command | When |\n";
+				md += "| :--- | :--- | :--- |\n";
+				for (const { key, command, when } of keybindings) {
+					md += `| \`${key}\` | \`${command}\` | ${when ? `\`${when}\`` : ""} |\n`;
+				}
+				md += "\n</details>\n\n";
+
+				if (!isChild) {
+					inheritedKeybindings += keybindings.length;
+				}
+			}
+		}
+
+		md += `**Summary:** ${d.keybindings.total} keybindings, ${inheritedKeybindings} inherited\n\n`;
+	}
+
+	// Snippets Section
+	if (d.snippets.total > 0) {
+		md += "## ✂️ Snippets\n\n";
+
+		let inheritedSnippets = 0;
+		for (const profile of hierarchy) {
+			const snippets = d.snippets.byParent.get(profile);
+			if (snippets && snippets.length > 0) {
+				const isChild = profile === d.profileName;
+				const label = isChild ? `${profile} (current)` : profile;
+
+				md += "<details>\n";
+				md += `<summary>From <strong>"${label}"</strong> - ${snippets.length} snippets</summary>\n\n`;
+
+				md += "| File | Snippet |\n";
+				md += "| :--- | :--- |\n";
+				for (const entry of snippets) {
+					const separator = entry.indexOf(": ");
+					const file = entry.slice(0, separator);
+					const name = entry.slice(separator + 2);
+					md += `| \`${file}\` | ${name} |\n`;
+				}
+				md += "\n</details>\n\n";
+
+				if (!isChild) {
+					inheritedSnippets += snippets.length;
+				}
+			}
+		}
+
+		md += `**Summary:** ${d.snippets.total} snippets, ${inheritedSnippets} inherited\n\n`;
+	}
+
 	md += "---\n\n";
 	md += "*Generated by Inherit Profile Extension*\n";
 
@@ -1,19 +1,41 @@
-import * as fs from "node:fs/promises";
 import * as path from "node:path";
+import {
+	findNodeAtLocation,
+	getNodeValue,
+	type ParseError,
+	parse,
+	parseTree,
+	printParseErrorCode,
+} from "jsonc-parser";
 import * as vscode from "vscode";
+import { writeSettingsFile } from "./backups.js";
+import { resolveProfileHierarchy } from "./hierarchy.js";
 import { Logger } from "./logger.js";
 import { getCurrentProfileName, getProfileMap } from "./profileDiscovery.js";
 import { Reporter } from "./reporter.js";
+import { loadSettingsSchema } from "./settingsSchema.js";
+import {
+	editJSONC,
+	readLocalSettings,
+	readSettingsTracking,
+	removeTrackedSettings,
+	type SettingsTracking,
+	writeSettingsTracking,
+} from "./settingsTracking.js";
 import {
-	findTabValue,
 	flattenSettings,
-	insertBeforeClose,
+	getHeaderName,
+	getMergeStrategy,
+	hasCurrentProfileHeader,
+	type MergeStrategy,
+	matchesGlob,
 	mergeFlattenedSettings,
-	readJSON,
+	mergeSettingValues,
 	readRawSettingsFile,
+	removeSettingsGroups,
 	removeTrailingComma,
 	sortSettings,
-	splitRawSettingsByClosingBrace,
+	splitOverrideKey,
 } from "./utils.js";
 
 const INHERITED_SETTINGS_START_MARKER =
@@ -27,17 +49,28 @@ const WARNING_EXPLAIN =
 	"//          The markers are used to identify inserted inherited settings";
 
 /**
- * Reads and flattens settings from a profile directory.
+ * Reads and flattens the local settings from a profile directory.
+ *
+ * Settings the profile inherited from other profiles are ignored, since those
+ * are resolved from the ancestors themselves.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param profilePath Directory of the profile.
+ * @param profileNames Names of all known profiles.
  */
 async function readProfileSettings(
+	context: vscode.ExtensionContext,
+	profileName: string,
 	profilePath: string,
+	profileNames: string[],
 ): Promise<Record<string, string>> {
 	const settingsPath = path.join(profilePath, "settings.json");
-	const json = await readJSON(settingsPath, true);
-	return flattenSettings(json as Record<string, unknown>) as Record<
-		string,
-		string
-	>;
+	return (await readLocalSettings(
+		context,
+		profileName,
+		settingsPath,
+		profileNames,
+	)) as Record<string, string>;
 }
 
 /**
@@ -63,7 +96,12 @@ export async function getProfileSettings(
 			continue;
 		}
 
-		const profileSettings = await readProfileSettings(profilePath);
+		const profileSettings = await readProfileSettings(
+			context,
+			profileName,
+			profilePath,
+			Object.keys(profileMap),
+		);
 		const count = Object.keys(profileSettings).length;
 		if (count > 0) {
 			Logger.info(
@@ -88,23 +126,112 @@ export async function getCurrentProfileSettings(
 	return await getProfileSettings(context, [currentProfileName]);
 }
 
+/**
+ * A setting that was not inherited because of the settings filters.
+ */
+export interface FilteredSetting {
+	key: string;
+	source: string;
+	reason: string;
+}
+
+/**
+ * A setting declared with different values by several profiles of the
+ * hierarchy, of which only one value is used.
+ */
+export interface SettingConflict {
+	key: string;
+	/**
+	 * Every profile declaring the setting with its value, closest first. The
+	 * current profile comes first if it declares the setting.
+	 */
+	values: Array<{ profile: string; value: unknown }>;
+	/**
+	 * Profile whose value is used.
+	 */
+	winner: string;
+}
+
+/**
+ * Gets the reason a setting key is filtered out by the
+ * `inheritProfile.settingsFilters` setting, if it is.
+ *
+ * Patterns starting with `!` exclude matching keys. Other patterns include
+ * matching keys; if there is at least one of them, keys that match none are
+ * excluded. Settings within a language override block are matched both with
+ * and without their override identifier.
+ * @param key Flattened setting key.
+ * @param filters Glob patterns.
+ * @returns Returns the reason the setting is not inherited, or `undefined` if
+ * it should be inherited.
+ */
+function getSettingFilterReason(
+	key: string,
+	filters: string[],
+): string | undefined {
+	const includes = filters.filter((f) => !f.startsWith("!"));
+	const excludes = filters
+		.filter((f) => f.startsWith("!"))
+		.map((f) => f.slice(1));
+	const settingKey = splitOverrideKey(key).key;
+	const matches = (pattern: string) =>
+		matchesGlob(key, pattern) || matchesGlob(settingKey, pattern);
+
+	const exclude = excludes.find(matches);
+	if (exclude) {
+		return `Excluded by \`!${exclude}\``;
+	}
+	if (includes.length > 0 && !includes.some(matches)) {
+		return "Not matched by any include pattern";
+	}
+	return undefined;
+}
+
 /**
  * Gets the inherited settings organized by parent profile.
+ *
+ * Settings are collected from every ancestor of the current profile, as
+ * resolved by `resolveProfileHierarchy`, not only from the direct parents.
+ * Keys filtered out by `inheritProfile.settingsFilters` are not inherited.
+ *
+ * Keys are inherited from the closest profile that defines them, unless a
+ * different strategy is configured for them in `inheritProfile.mergeStrategies`.
+ * In that case, the values of every ancestor and the local value are combined,
+ * and the combined value is inherited from the closest ancestor.
+ *
+ * Keys declared with different values by several profiles are returned as
+ * conflicts, along with the profile whose value is used.
  * @param context Extension context.
- * @returns Map of parent name to list of setting keys inherited from that parent.
+ * @returns Map of parent name to list of setting keys inherited from that
+ * parent, the settings that were filtered out, the conflicting settings, and
+ * the local settings of every ancestor (most distant first).
  */
 export async function getInheritedSettingsByParent(
 	context: vscode.ExtensionContext,
 ): Promise<{
 	byParent: Map<string, Record<string, string>>;
 	merged: Record<string, string>;
+	filtered: FilteredSetting[];
+	conflicts: SettingConflict[];
+	ancestorSettings: Map<string, Record<string, string>>;
 }> {
+	// Needed to tell object-valued settings apart from setting sections:
+	await loadSettingsSchema();
+
 	const currentProfileSettings = await getCurrentProfileSettings(context);
 	const currentProfileName = await getCurrentProfileName(context);
 	const config = vscode.workspace.getConfiguration("inheritProfile");
 	const parentProfiles = config.get<string[]>("parents", []);
+	const { order } = await resolveProfileHierarchy(
+		context,
+		currentProfileName,
+		parentProfiles,
+	);
+
+	const filters = config.get<string[]>("settingsFilters", []);
 
 	const byParent = new Map<string, Record<string, string>>();
+	const filtered: FilteredSetting[] = [];
 	const alreadyInherited = new Set<string>();
 
 	// Add local settings first
@@ -122,23 +249,100 @@ export async function getInheritedSettingsByParent(
 
 	const profileMap = await getProfileMap(context);
 
-	// Process each parent in REVERSE order (closest parent first, to allow overrides)
-	const hierarchy = [...parentProfiles].reverse();
-
-	for (const profileName of hierarchy) {
+	// Read the settings of each ancestor (most distant first):
+	const ancestorSettings = new Map<string, Record<string, string>>();
+	for (const profileName of order) {
 		const profilePath = profileMap[profileName];
 		if (!profilePath) continue;
 
-		const profileSettings = await readProfileSettings(profilePath);
+		ancestorSettings.set(
+			profileName,
+			await readProfileSettings(
+				context,
+				profileName,
+				profilePath,
+				Object.keys(profileMap),
+			),
+		);
+	}
+
+	// Combine the keys that have a merge strategy other than `replace`. The
+	// combined value includes the local value (if any) and is attributed to the
+	// closest ancestor that defines the key:
+	const strategies = config.get<Record<string, MergeStrategy>>(
+		"mergeStrategies",
+		{},
+	);
+	const combinedByParent = new Map<string, Record<string, string>>();
+	const ancestorKeys = new Set(
+		[...ancestorSettings.values()].flatMap((settings) => Object.keys(settings)),
+	);
+	for (const key of ancestorKeys) {
+		const strategy = getMergeStrategy(key, strategies);
+		if (strategy === "replace") {
+			continue;
+		}
 
-		const newFromThisParent: Record<string, string> = {};
+		const definedBy = order.filter((name) =>
+			Object.hasOwn(ancestorSettings.get(name) ?? {}, key),
+		);
+		const closest = definedBy[definedBy.length - 1];
+		const reason = getSettingFilterReason(key, filters);
+		if (reason) {
+			filtered.push({ key, source: closest, reason });
+			alreadyInherited.add(key);
+			continue;
+		}
+
+		const values: unknown[] = definedBy.map(
+			(name) => ancestorSettings.get(name)?.[key],
+		);
+		const hasLocal = Object.hasOwn(currentProfileSettings, key);
+		if (hasLocal) {
+			values.push(currentProfileSettings[key]);
+		}
+		const value = mergeSettingValues(values, strategy) as string;
+		alreadyInherited.add(key);
+
+		// Nothing to inherit if the local value already is the combined value:
+		if (
+			hasLocal &&
+			JSON.stringify(value) === JSON.stringify(currentProfileSettings[key])
+		) {
+			continue;
+		}
+
+		const combined = combinedByParent.get(closest) ?? {};
+		combined[key] = value;
+		combinedByParent.set(closest, combined);
+		merged[key] = value;
+	}
+
+	// Process each ancestor in REVERSE order (closest first, to allow overrides)
+	const hierarchy = [...order].reverse();
+
+	for (const profileName of hierarchy) {
+		const profileSettings = ancestorSettings.get(profileName);
+		if (!profileSettings) continue;
+
+		const newFromThisParent: Record<string, string> = {
+			...combinedByParent.get(profileName),
+		};
 
 		for (const key of Object.keys(profileSettings)) {
-			if (!alreadyInherited.has(key)) {
-				newFromThisParent[key] = profileSettings[key];
-				alreadyInherited.add(key);
-				merged[key] = profileSettings[key];
+			if (alreadyInherited.has(key)) {
+				continue;
 			}
+			alreadyInherited.add(key);
+
+			const reason = getSettingFilterReason(key, filters);
+			if (reason) {
+				filtered.push({ key, source: profileName, reason });
+				continue;
+			}
+
+			newFromThisParent[key] = profileSettings[key];
+			merged[key] = profileSettings[key];
 		}
 
 		if (Object.keys(newFromThisParent).length > 0) {
@@ -146,8 +350,44 @@ export async function getInheritedSettingsByParent(
 		}
 	}
 
+	// Find the keys whose value depends on which profile wins. Combined and
+	// filtered keys do not conflict, since no value is dropped in favor of
+	// another:
+	const filteredKeys = new Set(filtered.map((f) => f.key));
+	const conflicts: SettingConflict[] = [];
+	for (const key of new Set([...localSettings, ...ancestorKeys])) {
+		if (
+			filteredKeys.has(key) ||
+			getMergeStrategy(key, strategies) !== "replace"
+		) {
+			continue;
+		}
+
+		const values = [currentProfileName, ...hierarchy]
+			.filter((name) =>
+				Object.hasOwn(
+					name === currentProfileName
+						? currentProfileSettings
+						: (ancestorSettings.get(name) ?? {}),
+					key,
+				),
+			)
+			.map((name) => ({
+				profile: name,
+				value:
+					name === currentProfileName
+						? currentProfileSettings[key]
+						: ancestorSettings.get(name)?.[key],
+			}));
+		if (new Set(values.map(({ value }) => JSON.stringify(value))).size > 1) {
+			conflicts.push({ key, values, winner: values[0].profile });
+		}
+	}
+
 	merged = sortSettings(merged);
-	return { byParent, merged };
+	filtered.sort((a, b) => a.key.localeCompare(b.key));
+	conflicts.sort((a, b) => a.key.localeCompare(b.key));
+	return { byParent, merged, filtered, conflicts, ancestorSettings };
 }
 
 /**
@@ -163,15 +403,215 @@ export async function getInheritedSettings(
 }
 
 /**
- * Removes the settings (both legacy markers and new header-based blocks) from the file.
+ * An inherited setting currently written to a `settings.json` file.
+ */
+export interface WrittenSetting {
+	/**
+	 * Flattened setting key.
+	 */
+	key: string;
+	value: unknown;
+	/**
+	 * Profile the setting was inherited from, if known.
+	 */
+	source?: string;
+}
+
+/**
+ * Result of removing every inherited setting from the current profile,
+ * without writing anything to disk.
+ */
+export interface DetachedSettings {
+	/**
+	 * Path to the `settings.json` file of the current profile.
+	 */
+	settingsPath: string;
+	/**
+	 * Current content of the `settings.json` file.
+	 */
+	original: string;
+	/**
+	 * Content the `settings.json` file would have once detached.
+	 */
+	updated: string;
+	/**
+	 * Inherited settings currently written to the file.
+	 */
+	inherited: WrittenSetting[];
+	/**
+	 * Whether the inherited settings of the profile are tracked yet.
+	 */
+	tracked: boolean;
+	/**
+	 * Problems found when validating the updated content. The update must not
+	 * be written if there are any.
+	 */
+	problems: string[];
+}
+
+/**
+ * Computes the content the current profile `settings.json` would have without
+ * any of the settings inheritance ever wrote to it, without writing it.
+ *
+ * Unlike a sync, this also removes the legacy `// --- Name --- //` groups of
+ * known profiles that are no longer parents.
+ * @param context Extension context.
+ * @param keep Flattened keys of the inherited settings to keep as local
+ * settings.
+ * @returns Returns the computed update, or `undefined` if the current profile
+ * cannot be found.
+ */
+export async function computeDetachedSettings(
+	context: vscode.ExtensionContext,
+	keep: string[] = [],
+): Promise<DetachedSettings | undefined> {
+	const currentProfileName = await getCurrentProfileName(context);
+	const profiles = await getProfileMap(context);
+	const currentProfileDirectory = profiles[currentProfileName];
+	if (!currentProfileDirectory) {
+		Logger.error(
+			`Unable to find current profile directory for \`${currentProfileName}\` profile`,
+			undefined,
+			"Settings",
+		);
+		return undefined;
+	}
+	const settingsPath = path.join(currentProfileDirectory, "settings.json");
+
+	// Needed to find the path of the settings that are kept:
+	await loadSettingsSchema();
+
+	const original = await readRawSettingsFile(settingsPath);
+	const tracking = await readSettingsTracking(context, currentProfileName);
+	const cleaned = removeInheritedSettings(
+		original,
+		tracking,
+		Object.keys(profiles),
+	);
+
+	const sources = new Map(
+		(tracking?.settings ?? []).map((setting) => [
+			setting.path.join("."),
+			setting.source,
+		]),
+	);
+	const all = flattenSettings(
+		(parse(original) ?? {}) as Record<string, unknown>,
+	);
+	const local = flattenSettings(
+		(parse(cleaned) ?? {}) as Record<string, unknown>,
+	);
+	const inherited: WrittenSetting[] = Object.keys(all)
+		.filter((key) => !Object.hasOwn(local, key))
+		.sort()
+		.map((key) => ({ key, value: all[key], source: sources.get(key) }));
+
+	// Write the kept settings back, as local settings:
+	let updated = cleaned;
+	for (const { key: flatKey, value } of inherited) {
+		if (!keep.includes(flatKey)) {
+			continue;
+		}
+		const { override, key } = splitOverrideKey(flatKey);
+		updated = editJSONC(updated, override ? [override, key] : [key], value);
+	}
+
+	const problems = validateSettingsContent(updated, [
+		...Object.keys(local),
+		...keep,
+	]);
+
+	return {
+		settingsPath,
+		original,
+		updated,
+		inherited,
+		tracked: tracking !== undefined,
+		problems,
+	};
+}
+
+/**
+ * Removes every setting inheritance wrote to the current profile.
  * Preserves the current profile's local settings.
+ *
+ * The file is backed up before being written.
+ * @param context Extension context.
+ * @param keep Flattened keys of the inherited settings to keep as local
+ * settings.
+ * @returns Returns `false` if the settings could not be detached.
  */
-export async function removeInheritedSettingsFromFile(
-	settingsPath: string,
-	currentProfileName: string,
-	parents: string[],
-): Promise<void> {
-	let raw = await readRawSettingsFile(settingsPath);
+export async function detachSettings(
+	context: vscode.ExtensionContext,
+	keep: string[] = [],
+): Promise<boolean> {
+	const detached = await computeDetachedSettings(context, keep);
+	if (!detached) {
+		return false;
+	}
+
+	if (detached.problems.length > 0) {
+		const problems = detached.problems.join("; ");
+		Logger.error(
+			`Refusing to write ${detached.settingsPath}, the result would be invalid: ${problems}`,
+			undefined,
+			"Settings",
+		);
+		vscode.window.showErrorMessage(
+			`Inherited settings were not removed, settings.json would be invalid: ${problems}`,
+		);
+		return false;
+	}
+
+	const currentProfileName = await getCurrentProfileName(context);
+	if (detached.original !== detached.updated) {
+		await writeSettingsFile(
+			context,
+			currentProfileName,
+			detached.settingsPath,
+			detached.updated,
+		);
+		Logger.info(
+			`Removed ${detached.inherited.length - keep.length} inherited settings (${keep.length} kept as local settings)`,
+			"Settings",
+		);
+	}
+	// Profiles that were never synced are left untracked:
+	if (
+		detached.inherited.length > 0 ||
+		(!detached.tracked && detached.original !== detached.updated)
+	) {
+		await writeSettingsTracking(context, currentProfileName, {
+			settings: [],
+			blocks: [],
+		});
+	}
+	return true;
+}
+
+/**
+ * Removes the inherited settings from a raw `settings.json` file.
+ * Preserves the current profile's local settings.
+ *
+ * The settings written by the last sync are removed precisely, using the
+ * tracked settings. Files written before settings were tracked have their
+ * legacy marker block and `// --- Name --- //` groups removed instead. The
+ * groups are only removed if the file was synced, i.e. has the current
+ * profile's header, so that a user comment is never taken for a group.
+ * @param raw Raw `settings.json` file.
+ * @param tracking Inherited settings written by the last sync, if tracked.
+ * @param legacyGroupNames Names of the legacy groups to remove when the
+ * settings are not tracked.
+ * @returns Returns the cleaned raw file.
+ */
+export function removeInheritedSettings(
+	raw: string,
+	tracking: SettingsTracking | undefined,
+	legacyGroupNames: string[],
+): string {
+	if (tracking) {
+		return removeTrackedSettings(raw, tracking);
+	}
 
 	// 1. Remove legacy markers block if found
 	const startIndex = raw.indexOf(INHERITED_SETTINGS_START_MARKER);
@@ -186,46 +626,15 @@ export async function removeInheritedSettingsFromFile(
 		}
 	}
 
-	// 2. Parse file line by line to remove inherited parent headers and their content
-	// We want to keep:
-	// - Content under `// --- ${currentProfileName} (current) --- //`
-	// - Content not under any header (legacy local settings)
-	// We want to remove:
-	// - Content under `// --- ${parent} --- //`
-
-	const lines = raw.split("\n");
-	const outputLines: string[] = [];
-	let skip = false;
-
-	// Normalize header format check
-	const getHeaderName = (line: string): string | null => {
-		const match = line.match(/^\s*\/\/ --- (.*?) --- \/\/\s*$/);
-		return match ? match[1] : null;
-	};
-
-	const currentHeader = `${currentProfileName} (current)`;
-
-	for (const line of lines) {
-		const headerName = getHeaderName(line);
-		if (headerName) {
-			if (headerName === currentHeader) {
-				skip = false;
-				outputLines.push(line);
-			} else if (parents.includes(headerName)) {
-				skip = true;
-			} else {
-				// Unknown header (maybe user custom comment or unregistered parent), keep it
-				skip = false;
-				outputLines.push(line);
-			}
-		} else {
-			if (!skip) {
-				outputLines.push(line);
-			}
-		}
+	// 2. Remove legacy inherited groups and their content
+	const groupNames = new Set(legacyGroupNames);
+	if (
+		!hasCurrentProfileHeader(raw) ||
+		!raw.split("\n").some((line) => groupNames.has(getHeaderName(line) ?? ""))
+	) {
+		return raw;
 	}
-
-	let cleaned = outputLines.join("\n");
+	let cleaned = removeSettingsGroups(raw, legacyGroupNames);
 
 	// Ensure JSONC ends properly:
 	cleaned = removeTrailingComma(cleaned);
@@ -234,93 +643,172 @@ export async function removeInheritedSettingsFromFile(
 		cleaned = cleaned.trimEnd() + "\n}";
 	}
 
-	// Write cleaned file:
-	await fs.writeFile(settingsPath, cleaned, "utf8");
+	return cleaned;
 }
 
 /**
- * Writes a set of inherited settings to a settings path.
+ * Adds a set of inherited settings to a raw `settings.json` file.
  *
- * IMPORTANT: This function assumes that there are no inherited settings in the
- * file. Any inherited settings should be removed before calling this function.
+ * Settings are added with structured JSONC edits, at the end of the file.
+ * Inherited language overrides (e.g. `[typescript].editor.tabSize`) are written
+ * inside their `"[typescript]": { ... }` block, which is created if the current
+ * profile does not override the language yet. Settings that are already
+ * declared in the file are never overwritten, except for the combined values
+ * of settings with a merge strategy, which already include the local value.
+ * The local value is tracked, so that it is restored when the setting is
+ * removed.
+ *
+ * IMPORTANT: This function assumes that there are no inherited settings in
+ * `raw`. Any inherited settings should be removed before calling this function.
+ * @param raw Raw `settings.json` file.
+ * @param groups Inherited settings, by the profile they come from.
+ * @param combinedKeys Flattened keys of the settings whose value is combined
+ * with the local value.
+ * @returns Returns the raw file with the inherited settings, and the settings
+ * that were written, to be tracked.
  */
-export async function writeInheritedSettings(
-	settingsPath: string,
+export function addInheritedSettings(
+	raw: string,
 	groups: Array<{ name: string; settings: Record<string, string> }>,
-	currentProfileName: string,
-): Promise<void> {
-	// Read the raw file
-	let raw = await readRawSettingsFile(settingsPath);
-	const tab = findTabValue(raw);
-
-	// 1. Ensure the "Current" header exists for local settings
-	const currentHeader = `${tab}// --- ${currentProfileName} (current) --- //`;
-	if (!raw.includes(currentHeader.trim())) {
-		// Insert it after the opening brace
-		const openBraceIndex = raw.indexOf("{");
-		if (openBraceIndex !== -1) {
-			const beforeBox = raw.slice(0, openBraceIndex + 1);
-			const afterBox = raw.slice(openBraceIndex + 1);
-			raw = `${beforeBox}\n${currentHeader}${afterBox}`;
-		}
+	combinedKeys: Iterable<string> = [],
+): { updated: string; tracking: SettingsTracking } {
+	const combined = new Set(combinedKeys);
+	const tracking: SettingsTracking = { settings: [], blocks: [] };
+	if (!raw.trim()) {
+		raw = "{\n}\n";
 	}
 
-	// 2. Append inherited groups
-	if (groups.length > 0) {
-		const [beforeClose, afterClose] = splitRawSettingsByClosingBrace(raw);
-
-		// Build the inherited settings block:
-		const block = buildInheritedSettingsBlock(groups, tab);
+	for (const group of groups) {
+		for (const [flatKey, value] of Object.entries(group.settings)) {
+			const { override, key } = splitOverrideKey(flatKey);
+			const settingPath = override ? [override, key] : [key];
+
+			const root = parseTree(raw);
+			const node = root && findNodeAtLocation(root, settingPath);
+			if (node && combined.has(flatKey)) {
+				const original = getNodeValue(node);
+				raw = editJSONC(raw, settingPath, value);
+				tracking.settings.push({
+					path: settingPath,
+					value,
+					source: group.name,
+					original,
+				});
+				continue;
+			}
+			if (node) {
+				Logger.warn(
+					`Skipping '${flatKey}' from '${group.name}', it is already declared`,
+					"Settings",
+				);
+				continue;
+			}
+			if (override && !(root && findNodeAtLocation(root, [override]))) {
+				tracking.blocks.push(override);
+			}
 
-		// Insert the inherited settings block between the before and after closing
-		// brace blocks:
-		const beforeClosePlusBlock = insertBeforeClose(beforeClose, block);
-		raw = beforeClosePlusBlock + afterClose;
+			raw = editJSONC(raw, settingPath, value);
+			tracking.settings.push({ path: settingPath, value, source: group.name });
+		}
 	}
 
-	// Write the final settings to the settings path:
-	await fs.writeFile(settingsPath, raw, "utf8");
+	return { updated: raw, tracking };
 }
 
 /**
- * Builds the inherited settings block with start, warning, entries, and end.
- *
- * @param groups Grouped settings to insert into the settings block.
- * @param tab Tab sequence to use.
- * @returns Returns the raw inherited settings block.
+ * Result of computing the inherited settings of the current profile, without
+ * writing anything to disk.
  */
-function buildInheritedSettingsBlock(
-	groups: Array<{ name: string; settings: Record<string, string> }>,
-	tab: string,
-): string {
-	const lines: string[] = [];
-
-	groups.forEach((group, index) => {
-		lines.push(`${tab}// --- ${group.name} --- //`);
-		const groupEntries = Object.entries(group.settings);
-		groupEntries.forEach(([key, value], entryIdx) => {
-			const isLastOfAll =
-				index === groups.length - 1 && entryIdx === groupEntries.length - 1;
-			const suffix = isLastOfAll ? "" : ",";
-			lines.push(`${tab}"${key}": ${JSON.stringify(value)}${suffix}`);
-		});
+export interface SettingsUpdate {
+	/**
+	 * Path to the `settings.json` file of the current profile.
+	 */
+	settingsPath: string;
+	/**
+	 * Current content of the `settings.json` file.
+	 */
+	original: string;
+	/**
+	 * Content the `settings.json` file would have after syncing.
+	 */
+	updated: string;
+	byParent: Map<string, Record<string, string>>;
+	merged: Record<string, string>;
+	filtered: FilteredSetting[];
+	conflicts: SettingConflict[];
+	/**
+	 * Inherited settings written by the update, to be tracked once written.
+	 */
+	tracking: SettingsTracking;
+	/**
+	 * Problems found when validating the updated content. The update must not
+	 * be written if there are any.
+	 */
+	problems: string[];
+}
 
-		if (index < groups.length - 1) {
-			lines.push(""); // Empty line for spacing between groups
-		}
+/**
+ * Gets the line and column (both starting at 1) of an offset in a text.
+ */
+function getLineAndColumn(
+	text: string,
+	offset: number,
+): { line: number; column: number } {
+	const before = text.slice(0, offset);
+	return {
+		line: before.split("\n").length,
+		column: offset - before.lastIndexOf("\n"),
+	};
+}
+
+/**
+ * Validates the content a `settings.json` file would have after syncing.
+ *
+ * The content must parse without errors, and must still contain every setting
+ * that is expected to be in the file, so that a failed edit never makes VS Code
+ * ignore or lose the user's settings.
+ * @param content Content to validate.
+ * @param expectedKeys Flattened keys of the local and inherited settings.
+ * @returns Returns the problems found, or [] if the content is valid.
+ */
+export function validateSettingsContent(
+	content: string,
+	expectedKeys: Iterable<string>,
+): string[] {
+	const errors: ParseError[] = [];
+	const json: unknown = parse(content, errors, { allowTrailingComma: true });
+
+	const problems = errors.map((error) => {
+		const { line, column } = getLineAndColumn(content, error.offset);
+		return `${printParseErrorCode(error.error)} at line ${line}, column ${column}`;
 	});
+	if (problems.length > 0) {
+		return problems;
+	}
+	if (!json || typeof json !== "object" || Array.isArray(json)) {
+		return ["The settings are not a JSON object"];
+	}
 
-	// Only return the content, NO MARKERS
-	return (lines.length ? "\n" : "") + lines.join("\n") + "\n";
+	const actual = flattenSettings(json as Record<string, unknown>);
+	const missing = [...new Set(expectedKeys)].filter(
+		(key) => !Object.hasOwn(actual, key),
+	);
+	if (missing.length > 0) {
+		problems.push(`Missing settings: ${missing.join(", ")}`);
+	}
+	return problems;
 }
 
 /**
- * Applies the inherited settings to the current profile.
+ * Computes the content the current profile `settings.json` would have once the
+ * inherited settings are applied, without writing it.
  * @param context Extension context.
+ * @returns Returns the computed update, or `undefined` if the current profile
+ * cannot be found.
  */
-export async function syncSettings(
+export async function computeSettingsUpdate(
 	context: vscode.ExtensionContext,
-): Promise<void> {
+): Promise<SettingsUpdate | undefined> {
 	// Get the path to the current profile settings:
 	const currentProfileName = await getCurrentProfileName(context);
 	const profiles = await getProfileMap(context);
@@ -331,35 +819,32 @@ export async function syncSettings(
 			undefined,
 			"Settings",
 		);
-		return;
+		return undefined;
 	}
-	const currentProfilePath = path.join(
-		currentProfileDirectory,
-		"settings.json",
-	);
+	const settingsPath = path.join(currentProfileDirectory, "settings.json");
 
 	const config = vscode.workspace.getConfiguration("inheritProfile");
 	const parents = config.get<string[]>("parents", []);
-
-	// Remove the inherited settings from the current profile:
-	await removeInheritedSettingsFromFile(
-		currentProfilePath,
+	const { order } = await resolveProfileHierarchy(
+		context,
 		currentProfileName,
 		parents,
 	);
 
-	// Get the settings that the current profile should inherit:
-	const { byParent, merged } = await getInheritedSettingsByParent(context);
-	const totalInheritedSettings = Object.keys(merged).length;
+	// Remove the inherited settings from the current profile:
+	const original = await readRawSettingsFile(settingsPath);
+	const tracking = await readSettingsTracking(context, currentProfileName);
+	const cleaned = removeInheritedSettings(original, tracking, [
+		...new Set([...Object.keys(profiles), ...order]),
+	]);
 
-	// Track settings by parent for the report
-	Reporter.trackSettingsByParent(byParent);
+	// Get the settings that the current profile should inherit:
+	const { byParent, merged, filtered, conflicts } =
+		await getInheritedSettingsByParent(context);
 
-	// Always call writeInheritedSettings to ensure the local header is added,
-	// even if there are no inherited settings.
 	// Do NOT reverse here. We want to write blocks in standard order (Base -> Derived)
 	// creating a visual flow from generic to specific.
-	const hierarchy = [...parents];
+	const hierarchy = [...order];
 	const groups: Array<{ name: string; settings: Record<string, string> }> = [];
 	for (const parent of hierarchy) {
 		const settings = byParent.get(parent);
@@ -368,6 +853,72 @@ export async function syncSettings(
 		}
 	}
 
+	// Add the inherited settings to the end of the profile. Combined values
+	// replace the local value they include:
+	const strategies = config.get<Record<string, MergeStrategy>>(
+		"mergeStrategies",
+		{},
+	);
+	const { updated, tracking: updatedTracking } = addInheritedSettings(
+		cleaned,
+		groups,
+		Object.keys(merged).filter(
+			(key) => getMergeStrategy(key, strategies) !== "replace",
+		),
+	);
+
+	const local: unknown = parse(cleaned);
+	const problems = validateSettingsContent(updated, [
+		...Object.keys(flattenSettings((local ?? {}) as Record<string, unknown>)),
+		...Object.keys(merged),
+	]);
+
+	return {
+		settingsPath,
+		original,
+		updated,
+		byParent,
+		merged,
+		filtered,
+		conflicts,
+		tracking: updatedTracking,
+		problems,
+	};
+}
+
+/**
+ * Applies the inherited settings to the current profile.
+ * @param context Extension context.
+ */
+export async function syncSettings(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	const update = await computeSettingsUpdate(context);
+	if (!update) {
+		return;
+	}
+	const totalInheritedSettings = Object.keys(update.merged).length;
+
+	// Track settings by parent for the report
+	Reporter.trackSettingsByParent(update.byParent);
+	Reporter.trackFilteredSettings(update.filtered);
+	Reporter.trackSettingConflicts(update.conflicts);
+	for (const { key, values, winner } of update.conflicts) {
+		const list = values
+			.map(({ profile, value }) => `${profile}=${JSON.stringify(value)}`)
+			.join(", ");
+		Logger.warn(
+			`Conflicting values for '${key}': ${list} (using '${winner}')`,
+			"Settings",
+		);
+	}
+	if (update.filtered.length > 0) {
+		Logger.info(
+			`Filtered out ${update.filtered.length} settings: ${update.filtered.map((f) => f.key).join(", ")}`,
+			"Settings",
+		);
+	}
+
 	if (totalInheritedSettings > 0) {
 		Logger.info(
 			`Inheriting ${totalInheritedSettings} settings from parents`,
@@ -377,6 +928,38 @@ export async function syncSettings(
 		Logger.info("No new settings to inherit.", "Settings");
 	}
 
-	// Add the inherited settings to the end of the profile (and fix local header):
-	await writeInheritedSettings(currentProfilePath, groups, currentProfileName);
+	// Refuse to write a file VS Code would not be able to read:
+	if (update.problems.length > 0) {
+		const problems = update.problems.join("; ");
+		Logger.error(
+			`Refusing to write ${update.settingsPath}, the result would be invalid: ${problems}`,
+			undefined,
+			"Settings",
+		);
+		Reporter.trackWarning(
+			`Settings were not updated, the result would be invalid: ${problems}`,
+		);
+		vscode.window.showErrorMessage(
+			`Inherited settings were not written, settings.json would be invalid: ${problems}`,
+		);
+		return;
+	}
+
+	const currentProfileName = await getCurrentProfileName(context);
+
+	// NOTE: Unchanged files are not written, to avoid piling up backups.
+	if (update.original === update.updated) {
+		Logger.info("Settings already up to date.", "Settings");
+	} else {
+		await writeSettingsFile(
+			context,
+			currentProfileName,
+			update.settingsPath,
+			update.updated,
+		);
+	}
+
+	// Keep track of the inherited settings, so that they can be removed
+	// precisely on the next sync:
+	await writeSettingsTracking(context, currentProfileName, update.tracking);
 }
@@ -0,0 +1,104 @@
+import { parse } from "jsonc-parser";
+import * as vscode from "vscode";
+import { Logger } from "./logger.js";
+
+/**
+ * Read-only document VS Code generates with the default value of every
+ * registered setting, including the settings of VS Code itself.
+ */
+const DEFAULT_SETTINGS_URI = "vscode://defaultsettings/defaultSettings.json";
+
+/**
+ * Keys of the registered settings, and the sections they belong to (e.g.
+ * `editor` and `editor.minimap` for `editor.minimap.enabled`).
+ */
+let schema: { settings: Set<string>; sections: Set<string> } | undefined;
+
+/**
+ * Registers the listeners keeping the known settings up to date as extensions
+ * are installed or removed.
+ * @param context Extension context.
+ */
+export function registerSettingsSchema(context: vscode.ExtensionContext) {
+	context.subscriptions.push(
+		vscode.extensions.onDidChange(() => {
+			schema = undefined;
+		}),
+	);
+}
+
+/**
+ * Loads the keys of the registered settings, if they are not loaded yet.
+ *
+ * Keys are read from the configuration contributed by every extension, and
+ * from the default settings document of VS Code when it is available.
+ */
+export async function loadSettingsSchema(): Promise<void> {
+	if (schema) {
+		return;
+	}
+
+	const settings = new Set<string>();
+	for (const extension of vscode.extensions.all) {
+		const configuration = extension.packageJSON?.contributes?.configuration;
+		const configurations: Array<{ properties?: Record<string, unknown> }> =
+			Array.isArray(configuration) ? configuration : [configuration ?? {}];
+		for (const { properties } of configurations) {
+			for (const key of Object.keys(properties ?? {})) {
+				settings.add(key);
+			}
+		}
+	}
+
+	try {
+		const document = await vscode.workspace.openTextDocument(
+			vscode.Uri.parse(DEFAULT_SETTINGS_URI),
+		);
+		const defaults: unknown = parse(document.getText());
+		if (defaults && typeof defaults === "object") {
+			for (const key of Object.keys(defaults)) {
+				settings.add(key);
+			}
+		}
+	} catch (error) {
+		Logger.warn(
+			`Unable to read the default settings, falling back to the settings contributed by extensions (${error instanceof Error ? error.message : String(error)})`,
+			"Settings",
+		);
+	}
+
+	const sections = new Set<string>();
+	for (const key of settings) {
+		const parts = key.split(".");
+		for (let i = 1; i < parts.length; i++) {
+			sections.add(parts.slice(0, i).join("."));
+		}
+	}
+
+	schema = { settings, sections };
+}
+
+/**
+ * Checks whether a key is a setting whose value should be kept whole, rather
+ * than flattened into sub-keys.
+ *
+ * Registered settings are always kept whole, and registered sections are
+ * always flattened. Unknown keys (e.g. settings of an extension that is not
+ * installed) are kept whole if their value is empty, or if any of its keys
+ * could not be part of a setting key (e.g. `**\/.git` in `files.exclude`).
+ * @param key Setting key, without its language override identifier.
+ * @param value Object value of the setting.
+ */
+export function isSettingBoundary(
+	key: string,
+	value: Record<string, unknown>,
+): boolean {
+	if (schema?.settings.has(key)) {
+		return true;
+	}
+	if (schema?.sections.has(key)) {
+		return false;
+	}
+	const keys = Object.keys(value);
+	return keys.length === 0 || keys.some((k) => !/^[\w-]+$/.test(k));
+}
@@ -0,0 +1,330 @@
+import * as fs from "node:fs/promises";
+import {
+	applyEdits,
+	type FormattingOptions,
+	findNodeAtLocation,
+	getLocation,
+	getNodeValue,
+	type JSONPath,
+	modify,
+	type Node,
+	parse,
+	parseTree,
+} from "jsonc-parser";
+import * as vscode from "vscode";
+import { Logger } from "./logger.js";
+import {
+	findTabValue,
+	flattenSettings,
+	hasCurrentProfileHeader,
+	removeSettingsGroups,
+} from "./utils.js";
+
+/**
+ * A setting written to a `settings.json` file by inheritance.
+ */
+export interface TrackedSetting {
+	/**
+	 * Location of the setting in the file, e.g. `["editor.tabSize"]` or
+	 * `["[typescript]", "editor.tabSize"]`.
+	 */
+	path: string[];
+	/**
+	 * Value that was written.
+	 */
+	value: unknown;
+	/**
+	 * Profile the setting was inherited from.
+	 */
+	source: string;
+	/**
+	 * Local value the setting had before it was combined with the inherited
+	 * values, restored when the setting is removed. Only set when an inherited
+	 * value was written over a local one (see `inheritProfile.mergeStrategies`).
+	 */
+	original?: unknown;
+}
+
+/**
+ * The inherited settings written to a profile's `settings.json` file by the
+ * last sync.
+ */
+export interface SettingsTracking {
+	settings: TrackedSetting[];
+	/**
+	 * Language override blocks (e.g. `[typescript]`) that were created to hold
+	 * inherited settings.
+	 */
+	blocks: string[];
+}
+
+/**
+ * Gets the file the inherited settings of a profile are tracked in.
+ *
+ * NOTE: The global storage is shared by every profile, which lets a profile
+ * tell which settings of its ancestors are inherited.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ */
+function getTrackingUri(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): vscode.Uri {
+	return vscode.Uri.joinPath(
+		context.globalStorageUri,
+		"inheritedSettings",
+		`${encodeURIComponent(profileName)}.json`,
+	);
+}
+
+/**
+ * Reads the inherited settings written to a profile by the last sync.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @returns Returns the tracked settings, or `undefined` if the profile was
+ * never synced since settings started being tracked.
+ */
+export async function readSettingsTracking(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): Promise<SettingsTracking | undefined> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(
+			getTrackingUri(context, profileName).fsPath,
+			"utf8",
+		);
+	} catch {
+		return undefined;
+	}
+
+	const json: unknown = parse(raw);
+	if (!json || typeof json !== "object" || !("settings" in json)) {
+		Logger.warn(
+			`Invalid inherited settings tracking for '${profileName}', ignoring it`,
+			"Settings",
+		);
+		return undefined;
+	}
+	const tracking = json as Partial<SettingsTracking>;
+	return {
+		settings: Array.isArray(tracking.settings) ? tracking.settings : [],
+		blocks: Array.isArray(tracking.blocks) ? tracking.blocks : [],
+	};
+}
+
+/**
+ * Records the inherited settings written to a profile.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param tracking Inherited settings that were written.
+ */
+export async function writeSettingsTracking(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	tracking: SettingsTracking,
+): Promise<void> {
+	const uri = getTrackingUri(context, profileName);
+	await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, ".."));
+	await vscode.workspace.fs.writeFile(
+		uri,
+		Buffer.from(JSON.stringify(tracking, null, "\t")),
+	);
+}
+
+/**
+ * Forgets the inherited settings written to a profile, so that it is handled
+ * like a profile that was synced before settings were tracked.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ */
+export async function deleteSettingsTracking(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): Promise<void> {
+	try {
+		await vscode.workspace.fs.delete(getTrackingUri(context, profileName));
+	} catch {
+		// Not tracked
+	}
+}
+
+/**
+ * Gets the options used to edit a raw JSONC file without changing its
+ * indentation and line endings.
+ * @param raw Raw JSONC file.
+ */
+export function getFormattingOptions(raw: string): FormattingOptions {
+	const tab = findTabValue(raw);
+	return {
+		insertSpaces: tab !== "\t",
+		tabSize: tab === "\t" ? 4 : tab.length,
+		eol: raw.includes("\r\n") ? "\r\n" : "\n",
+	};
+}
+
+/**
+ * Sets or removes a value in a raw JSONC file.
+ * @param raw Raw JSONC file.
+ * @param path Location of the value.
+ * @param value Value to set, or `undefined` to remove it.
+ * @returns Returns the edited raw file.
+ */
+export function editJSONC(raw: string, path: JSONPath, value: unknown): string {
+	return applyEdits(
+		raw,
+		modify(raw, path, value, { formattingOptions: getFormattingOptions(raw) }),
+	);
+}
+
+/**
+ * Finds where a flattened setting is declared in a raw `settings.json` file,
+ * e.g. `["editor", "tabSize"]` for `editor.tabSize` declared in an `editor`
+ * object.
+ * @param raw Raw `settings.json` file.
+ * @param flatKey Flattened setting key.
+ * @returns Returns the location of the setting, or `undefined` if it is not
+ * declared.
+ */
+export function findSettingPath(
+	raw: string,
+	flatKey: string,
+): string[] | undefined {
+	const visit = (
+		node: Node | undefined,
+		prefix: string[],
+	): string[] | undefined => {
+		if (node?.type !== "object") {
+			return undefined;
+		}
+		for (const property of node.children ?? []) {
+			const [keyNode, valueNode] = property.children ?? [];
+			if (!keyNode) {
+				continue;
+			}
+			const settingPath = [...prefix, String(keyNode.value)];
+			const key = settingPath.join(".");
+			if (key === flatKey) {
+				return settingPath;
+			}
+			if (flatKey.startsWith(`${key}.`)) {
+				const found = visit(valueNode, settingPath);
+				if (found) {
+					return found;
+				}
+			}
+		}
+		return undefined;
+	};
+	return visit(parseTree(raw), []);
+}
+
+/**
+ * Finds the setting at an offset of a raw `settings.json` file.
+ *
+ * The setting is the shortest part of the JSON location that is a flattened
+ * setting key, since the offset may be within an object value.
+ * @param raw Raw `settings.json` file.
+ * @param offset Offset in the file.
+ * @param settings Flattened settings of the file.
+ * @returns Returns the flattened key and location of the setting, or
+ * `undefined` if there is no setting at the offset.
+ */
+export function findSettingAtOffset(
+	raw: string,
+	offset: number,
+	settings: Record<string, unknown>,
+): { key: string; path: string[] } | undefined {
+	const segments: string[] = [];
+	for (const segment of getLocation(raw, offset).path) {
+		if (typeof segment !== "string") {
+			break;
+		}
+		segments.push(segment);
+	}
+
+	for (let i = 1; i <= segments.length; i++) {
+		const key = segments.slice(0, i).join(".");
+		if (Object.hasOwn(settings, key)) {
+			return { key, path: segments.slice(0, i) };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Removes the tracked inherited settings from a raw `settings.json` file.
+ *
+ * A tracked setting is only removed if it still has the value that was
+ * written; if the user changed it since, it is kept as a local setting. Settings
+ * that were written over a local value get that value back instead. Language
+ * override blocks created by inheritance are removed once empty.
+ * @param raw Raw `settings.json` file.
+ * @param tracking Inherited settings written by the last sync.
+ * @returns Returns the raw file without the tracked settings.
+ */
+export function removeTrackedSettings(
+	raw: string,
+	tracking: SettingsTracking,
+): string {
+	for (const setting of tracking.settings) {
+		const root = parseTree(raw);
+		const node = root && findNodeAtLocation(root, setting.path);
+		if (
+			node &&
+			JSON.stringify(getNodeValue(node)) === JSON.stringify(setting.value)
+		) {
+			raw = editJSONC(
+				raw,
+				setting.path,
+				"original" in setting ? setting.original : undefined,
+			);
+		}
+	}
+
+	for (const block of tracking.blocks) {
+		const root = parseTree(raw);
+		const node = root && findNodeAtLocation(root, [block]);
+		if (node?.type === "object" && (node.children ?? []).length === 0) {
+			raw = editJSONC(raw, [block], undefined);
+		}
+	}
+
+	return raw;
+}
+
+/**
+ * Reads the settings declared locally in a profile's `settings.json` file,
+ * ignoring the settings it inherited from other profiles.
+ *
+ * Profiles that were synced before inherited settings were tracked still use
+ * the legacy `// --- Name --- //` groups, which are ignored instead. Files that
+ * were never synced have no inherited groups, only header comments.
+ * @param context Extension context.
+ * @param profileName Name of the profile.
+ * @param settingsPath Path to the `settings.json` file.
+ * @param legacyGroupNames Names of the legacy groups that may have been
+ * inherited.
+ * @returns Returns the flattened local settings, or {} on error.
+ */
+export async function readLocalSettings(
+	context: vscode.ExtensionContext,
+	profileName: string,
+	settingsPath: string,
+	legacyGroupNames: string[],
+): Promise<Record<string, unknown>> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(settingsPath, "utf8");
+	} catch {
+		return {};
+	}
+	const tracking = await readSettingsTracking(context, profileName);
+	const local = tracking
+		? removeTrackedSettings(raw, tracking)
+		: hasCurrentProfileHeader(raw)
+			? removeSettingsGroups(raw, legacyGroupNames)
+			: raw;
+	const json = parse(local) ?? {};
+	return flattenSettings(json as Record<string, unknown>);
+}
@@ -0,0 +1,319 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { parse } from "jsonc-parser";
+import * as vscode from "vscode";
+import { resolveProfileHierarchy } from "./hierarchy.js";
+import { Logger } from "./logger.js";
+import { getCurrentProfileName, getProfileMap } from "./profileDiscovery.js";
+import { Reporter } from "./reporter.js";
+
+/**
+ * First line of every snippets file written by this extension. Used to tell
+ * inherited snippets files apart from the user's own snippets files.
+ */
+const INHERITED_SNIPPETS_MARKER =
+	"// Inherited snippets, managed by the Inherit Profile extension. Changes to this file will be overwritten.";
+
+/**
+ * Prefix of the snippets files written by this extension.
+ */
+const INHERITED_SNIPPETS_PREFIX = "inherited.";
+
+type Snippets = Record<string, Record<string, unknown>>;
+
+/**
+ * Reads the snippets files the user created in a profile, ignoring the files
+ * written by this extension.
+ * @param profilePath Directory of the profile.
+ * @returns Returns a map of snippets file name to its snippets.
+ */
+async function readLocalSnippets(
+	profilePath: string,
+): Promise<Map<string, Snippets>> {
+	const snippetsDir = path.join(profilePath, "snippets");
+	const files = new Map<string, Snippets>();
+
+	let names: string[];
+	try {
+		names = await fs.readdir(snippetsDir);
+	} catch {
+		return files;
+	}
+
+	for (const name of names.sort()) {
+		if (!name.endsWith(".json") && !name.endsWith(".code-snippets")) {
+			continue;
+		}
+		try {
+			const raw = await fs.readFile(path.join(snippetsDir, name), "utf8");
+			if (raw.startsWith(INHERITED_SNIPPETS_MARKER)) {
+				continue;
+			}
+			const json: unknown = parse(raw);
+			if (json && typeof json === "object" && !Array.isArray(json)) {
+				files.set(name, json as Snippets);
+			}
+		} catch (error) {
+			Logger.error(`Failed to read snippets at ${name}:`, error, "Snippets");
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Gets the name of the file inherited snippets from a given file are written
+ * to.
+ *
+ * Language snippets files (e.g. `typescript.json`) are written as global
+ * snippets files scoped to their language, so that they do not clash with the
+ * user's own file for that language.
+ * @param fileName Name of the snippets file in the parent profile.
+ */
+function getInheritedFileName(fileName: string): string {
+	const baseName = fileName.replace(/\.(json|code-snippets)$/, "");
+	return `${INHERITED_SNIPPETS_PREFIX}${baseName}.code-snippets`;
+}
+
+/**
+ * Gets the snippets file names written by a previous sync for a profile.
+ */
+function getTrackedSnippetFiles(
+	context: vscode.ExtensionContext,
+	profileName: string,
+): string[] {
+	return context.globalState.get<string[]>(
+		`inheritedSnippets.${profileName}`,
+		[],
+	);
+}
+
+/**
+ * Removes a snippets file written by this extension. Files the user created
+ * are never removed.
+ * @param filePath Path to the snippets file.
+ * @returns Returns `true` if the file was removed.
+ */
+async function removeInheritedSnippetsFile(filePath: string): Promise<boolean> {
+	try {
+		const existing = await fs.readFile(filePath, "utf8");
+		if (existing.startsWith(INHERITED_SNIPPETS_MARKER)) {
+			await fs.rm(filePath);
+			return true;
+		}
+	} catch {
+		// Already removed
+	}
+	return false;
+}
+
+/**
+ * Gets the inherited snippets of the current profile.
+ *
+ * Snippets are collected from every ancestor of the current profile. A snippet
+ * from a closer profile shadows a snippet with the same name in the same file
+ * from more distant profiles, and the current profile's own snippets shadow
+ * inherited ones.
+ * @param context Extension context.
+ * @returns Returns a map of inherited file name to its snippets, and the names
+ * of the inherited snippets organized by the profile they come from.
+ */
+export async function getInheritedSnippets(
+	context: vscode.ExtensionContext,
+): Promise<{
+	files: Map<string, Snippets>;
+	byParent: Map<string, string[]>;
+}> {
+	const currentProfileName = await getCurrentProfileName(context);
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	const parents = config.get<string[]>("parents", []);
+	const { order } = await resolveProfileHierarchy(
+		context,
+		currentProfileName,
+		parents,
+	);
+	const profileMap = await getProfileMap(context);
+
+	const files = new Map<string, Snippets>();
+	const byParent = new Map<string, string[]>();
+
+	const currentProfilePath = profileMap[currentProfileName];
+	const local = currentProfilePath
+		? await readLocalSnippets(currentProfilePath)
+		: new Map<string, Snippets>();
+	if (local.size > 0) {
+		byParent.set(
+			currentProfileName,
+			[...local].flatMap(([file, snippets]) =>
+				Object.keys(snippets).map((name) => `${file}: ${name}`),
+			),
+		);
+	}
+
+	// Process each ancestor in REVERSE order (closest first, to allow overrides)
+	for (const profileName of [...order].reverse()) {
+		const profilePath = profileMap[profileName];
+		if (!profilePath) continue;
+
+		const newFromThisParent: string[] = [];
+		for (const [file, snippets] of await readLocalSnippets(profilePath)) {
+			const inheritedFile = getInheritedFileName(file);
+			const inherited = files.get(inheritedFile) ?? {};
+			const localSnippets = local.get(file) ?? {};
+			const language = file.endsWith(".json")
+				? file.replace(/\.json$/, "")
+				: undefined;
+
+			for (const [name, snippet] of Object.entries(snippets)) {
+				if (
+					Object.hasOwn(inherited, name) ||
+					Object.hasOwn(localSnippets, name)
+				) {
+					continue;
+				}
+				inherited[name] =
+					language && snippet.scope === undefined
+						? { scope: language, ...snippet }
+						: snippet;
+				newFromThisParent.push(`${file}: ${name}`);
+			}
+
+			if (Object.keys(inherited).length > 0) {
+				files.set(inheritedFile, inherited);
+			}
+		}
+
+		if (newFromThisParent.length > 0) {
+			byParent.set(profileName, newFromThisParent);
+		}
+	}
+
+	return { files, byParent };
+}
+
+/**
+ * Applies the inherited snippets to the current profile.
+ *
+ * Inherited snippets are written to their own `inherited.*.code-snippets`
+ * files. The files written by a previous sync are tracked, so that they can be
+ * updated or removed without touching the user's own snippets files.
+ * @param context Extension context.
+ */
+export async function syncSnippets(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	if (!config.get<boolean>("snippets", true)) {
+		return;
+	}
+
+	const currentProfileName = await getCurrentProfileName(context);
+	const profileMap = await getProfileMap(context);
+	const currentProfilePath = profileMap[currentProfileName];
+	if (!currentProfilePath) {
+		Logger.error(
+			`Unable to find current profile directory for \`${currentProfileName}\` profile`,
+			undefined,
+			"Snippets",
+		);
+		return;
+	}
+	const snippetsDir = path.join(currentProfilePath, "snippets");
+
+	const { files, byParent } = await getInheritedSnippets(context);
+	Reporter.trackSnippetsByParent(byParent);
+
+	const tracked = new Set(getTrackedSnippetFiles(context, currentProfileName));
+	const written: string[] = [];
+
+	if (files.size > 0) {
+		await fs.mkdir(snippetsDir, { recursive: true });
+	}
+
+	for (const [file, snippets] of files) {
+		const filePath = path.join(snippetsDir, file);
+		const content = `${INHERITED_SNIPPETS_MARKER}\n${JSON.stringify(snippets, null, "\t")}\n`;
+
+		let existing: string | undefined;
+		try {
+			existing = await fs.readFile(filePath, "utf8");
+		} catch {
+			// Does not exist yet
+		}
+
+		// Never overwrite a file the user created:
+		if (
+			existing !== undefined &&
+			!existing.startsWith(INHERITED_SNIPPETS_MARKER)
+		) {
+			Logger.warn(
+				`Skipping '${file}', a snippets file with the same name already exists`,
+				"Snippets",
+			);
+			continue;
+		}
+
+		written.push(file);
+		if (existing !== content) {
+			await fs.writeFile(filePath, content, "utf8");
+		}
+	}
+
+	// Remove the inherited files that are no longer needed:
+	let removedCount = 0;
+	for (const file of tracked) {
+		if (written.includes(file)) {
+			continue;
+		}
+		if (await removeInheritedSnippetsFile(path.join(snippetsDir, file))) {
+			removedCount++;
+		}
+	}
+
+	await context.globalState.update(
+		`inheritedSnippets.${currentProfileName}`,
+		written,
+	);
+
+	let total = 0;
+	for (const snippets of files.values()) {
+		total += Object.keys(snippets).length;
+	}
+	if (total > 0 || removedCount > 0) {
+		Logger.info(
+			`Inheriting ${total} snippets from parents (${removedCount} files removed)`,
+			"Snippets",
+		);
+	} else {
+		Logger.info("No snippets to inherit.", "Snippets");
+	}
+}
+
+/**
+ * Removes every snippets file inheritance wrote to the current profile.
+ * @param context Extension context.
+ */
+export async function detachSnippets(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	const currentProfileName = await getCurrentProfileName(context);
+	const profileMap = await getProfileMap(context);
+	const currentProfilePath = profileMap[currentProfileName];
+	const tracked = getTrackedSnippetFiles(context, currentProfileName);
+	if (!currentProfilePath || tracked.length === 0) {
+		return;
+	}
+
+	let removedCount = 0;
+	for (const file of tracked) {
+		const filePath = path.join(currentProfilePath, "snippets", file);
+		if (await removeInheritedSnippetsFile(filePath)) {
+			removedCount++;
+		}
+	}
+	await context.globalState.update(
+		`inheritedSnippets.${currentProfileName}`,
+		[],
+	);
+	Logger.info(`Removed ${removedCount} inherited snippets files`, "Snippets");
+}
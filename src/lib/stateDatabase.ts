@@ -0,0 +1,49 @@
+import * as fs from "node:fs/promises";
+
+/**
+ * Reads a value from the `ItemTable` of a VS Code state database
+ * (`state.vscdb`).
+ *
+ * The database is read in-process, using the SQLite module built into Node, and
+ * is opened read-only so that VS Code's own connection is left untouched.
+ *
+ * NOTE: This throws if the database exists but cannot be read.
+ * @param dbPath Path to the `state.vscdb` file.
+ * @param key Key of the item to read.
+ * @returns Returns the value of the item, or `undefined` if the database or the
+ * item does not exist.
+ */
+export async function readStateValue(
+	dbPath: string,
+	key: string,
+): Promise<string | undefined> {
+	try {
+		await fs.access(dbPath);
+	} catch {
+		return undefined;
+	}
+
+	let sqlite: typeof import("node:sqlite");
+	try {
+		sqlite = await import("node:sqlite");
+	} catch (error) {
+		throw new Error(
+			`The built-in SQLite module is not available in this version of VS Code (${error instanceof Error ? error.message : String(error)})`,
+		);
+	}
+
+	const db = new sqlite.DatabaseSync(dbPath, { readOnly: true });
+	try {
+		const row = db
+			.prepare("SELECT value FROM ItemTable WHERE key = ?")
+			.get(key) as { value: string | Uint8Array | null } | undefined;
+		if (!row || row.value === null) {
+			return undefined;
+		}
+		return typeof row.value === "string"
+			? row.value
+			: new TextDecoder().decode(row.value);
+	} finally {
+		db.close();
+	}
+}
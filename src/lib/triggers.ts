@@ -0,0 +1,249 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { getProfileExtensionsPath } from "./extensions.js";
+import { resolveProfileHierarchy } from "./hierarchy.js";
+import { Logger } from "./logger.js";
+import {
+	getCurrentProfileName,
+	getGlobalStoragePath,
+	getProfileMap,
+} from "./profileDiscovery.js";
+
+/**
+ * Delay (in milliseconds) used to group bursts of storage writes together.
+ *
+ * VS Code rewrites `storage.json` several times in a row when switching
+ * profiles, so we wait for things to settle before checking the profile.
+ */
+const STORAGE_DEBOUNCE_MS = 500;
+
+/**
+ * Delay (in milliseconds) used to group edits to parent profiles together, so
+ * that saving several files in a row only triggers a single sync.
+ */
+const PARENT_DEBOUNCE_MS = 1000;
+
+/**
+ * Runs `sync` once the extension has started, if enabled through the
+ * `inheritProfile.runOnStartup` setting.
+ * @param sync Callback that applies inheritance to the current profile.
+ */
+export async function runStartupSync(sync: () => Promise<void>): Promise<void> {
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	if (!config.get<boolean>("runOnStartup", true)) {
+		Logger.info("Startup sync disabled", "Triggers");
+		return;
+	}
+
+	Logger.info("Running startup sync", "Triggers");
+	try {
+		await sync();
+	} catch (error) {
+		Logger.error("Failed to sync on startup", error, "Triggers");
+	}
+}
+
+/**
+ * Watches the global storage JSON file for profile switches and runs `sync`
+ * whenever the current profile changes, if enabled through the
+ * `inheritProfile.runOnProfileChange` setting.
+ *
+ * The setting is checked every time a change is detected, so toggling it does
+ * not require a restart. Profiles switched to in another window are not synced.
+ * @param context Extension context.
+ * @param sync Callback that applies inheritance to the current profile.
+ */
+export async function watchProfileChanges(
+	context: vscode.ExtensionContext,
+	sync: () => Promise<void>,
+): Promise<void> {
+	// NOTE: `storage.json` is shared by every window, so the profile it reports
+	// is the one last switched to in any window. The profile of this window only
+	// changes when the switch happens while this window is focused.
+	let windowProfileName = await getCurrentProfileName(context);
+	let timer: NodeJS.Timeout | undefined;
+
+	const watcher = createFileWatcher(getGlobalStoragePath(context));
+
+	const onStorageChanged = () => {
+		if (timer) {
+			clearTimeout(timer);
+		}
+		timer = setTimeout(async () => {
+			timer = undefined;
+			try {
+				const profileName = await getCurrentProfileName(context);
+				if (profileName === windowProfileName) {
+					return;
+				}
+
+				if (!vscode.window.state.focused) {
+					Logger.info(
+						`Profile '${profileName}' was switched to in another window, skipping sync`,
+						"Triggers",
+					);
+					return;
+				}
+
+				Logger.info(
+					`Profile changed from '${windowProfileName}' to '${profileName}'`,
+					"Triggers",
+				);
+				windowProfileName = profileName;
+
+				const config = vscode.workspace.getConfiguration("inheritProfile");
+				if (!config.get<boolean>("runOnProfileChange", true)) {
+					return;
+				}
+
+				await sync();
+			} catch (error) {
+				Logger.error("Failed to sync after profile change", error, "Triggers");
+			}
+		}, STORAGE_DEBOUNCE_MS);
+	};
+
+	context.subscriptions.push(
+		watcher,
+		watcher.onDidChange(onStorageChanged),
+		watcher.onDidCreate(onStorageChanged),
+		{
+			dispose: () => {
+				if (timer) {
+					clearTimeout(timer);
+				}
+			},
+		},
+	);
+}
+
+/**
+ * Creates a file system watcher for a single file outside of the workspace.
+ * @param filePath Absolute path of the file to watch.
+ * @returns Returns the created watcher.
+ */
+function createFileWatcher(filePath: string): vscode.FileSystemWatcher {
+	return vscode.workspace.createFileSystemWatcher(
+		new vscode.RelativePattern(
+			vscode.Uri.file(path.dirname(filePath)),
+			path.basename(filePath),
+		),
+	);
+}
+
+/**
+ * Watches the `settings.json`, `keybindings.json` and `extensions.json` files
+ * and the snippets of each ancestor profile and runs `sync` whenever one of them changes, if
+ * enabled through the `inheritProfile.runOnParentChange` setting.
+ *
+ * The watchers are recreated whenever `inheritProfile.parents` changes.
+ * @param context Extension context.
+ * @param sync Callback that applies inheritance to the current profile.
+ */
+export async function watchParentProfiles(
+	context: vscode.ExtensionContext,
+	sync: () => Promise<void>,
+): Promise<void> {
+	let watchers: vscode.Disposable[] = [];
+	let timer: NodeJS.Timeout | undefined;
+
+	const disposeWatchers = () => {
+		for (const watcher of watchers) {
+			watcher.dispose();
+		}
+		watchers = [];
+	};
+
+	const onParentChanged = (uri: vscode.Uri) => {
+		const config = vscode.workspace.getConfiguration("inheritProfile");
+		if (!config.get<boolean>("runOnParentChange", true)) {
+			return;
+		}
+
+		Logger.info(`Parent profile file changed: ${uri.fsPath}`, "Triggers");
+		if (timer) {
+			clearTimeout(timer);
+		}
+		timer = setTimeout(async () => {
+			timer = undefined;
+			try {
+				// An ancestor may have changed its own parents:
+				await createWatchers();
+				await sync();
+			} catch (error) {
+				Logger.error("Failed to sync after parent change", error, "Triggers");
+			}
+		}, PARENT_DEBOUNCE_MS);
+	};
+
+	const createWatchers = async () => {
+		disposeWatchers();
+
+		const config = vscode.workspace.getConfiguration("inheritProfile");
+		const parents = config.get<string[]>("parents", []);
+		const currentProfileName = await getCurrentProfileName(context);
+		const profileMap = await getProfileMap(context);
+		const { order } = await resolveProfileHierarchy(
+			context,
+			currentProfileName,
+			parents,
+		);
+
+		let watchedCount = 0;
+		for (const parent of order) {
+			const profilePath = profileMap[parent];
+			if (!profilePath || parent === currentProfileName) {
+				continue;
+			}
+			watchedCount++;
+
+			const files = [
+				path.join(profilePath, "settings.json"),
+				path.join(profilePath, "keybindings.json"),
+				getProfileExtensionsPath(parent, profilePath),
+			];
+			const snippetsWatcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(
+					vscode.Uri.file(path.join(profilePath, "snippets")),
+					"*.{json,code-snippets}",
+				),
+			);
+			for (const watcher of [
+				...files.map(createFileWatcher),
+				snippetsWatcher,
+			]) {
+				watchers.push(
+					watcher,
+					watcher.onDidChange(onParentChanged),
+					watcher.onDidCreate(onParentChanged),
+					watcher.onDidDelete(onParentChanged),
+				);
+			}
+		}
+
+		if (watchedCount > 0) {
+			Logger.info(
+				`Watching ${watchedCount} parent profiles for changes`,
+				"Triggers",
+			);
+		}
+	};
+
+	await createWatchers();
+
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(async (event) => {
+			if (event.affectsConfiguration("inheritProfile.parents")) {
+				await createWatchers();
+			}
+		}),
+		{
+			dispose: () => {
+				disposeWatchers();
+				if (timer) {
+					clearTimeout(timer);
+				}
+			},
+		},
+	);
+}
@@ -1,6 +1,7 @@
 import * as fs from "node:fs/promises";
 import { parse } from "jsonc-parser";
 import { Logger } from "./logger";
+import { isSettingBoundary } from "./settingsSchema";
 
 /**
  * Reads JSONC (JSON with comments).
@@ -78,9 +79,68 @@ export function findByKeyValuePair(
 	return dfs(input);
 }
 
+/**
+ * Checks whether a value matches a glob pattern.
+ *
+ * `*` matches any sequence of characters (including dots) and `?` matches a
+ * single character. Matching is case-insensitive.
+ * @param value Value to check.
+ * @param pattern Glob pattern.
+ * @returns Returns `true` if `value` matches `pattern`.
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+	const source = pattern
+		.split("")
+		.map((char) => {
+			if (char === "*") {
+				return ".*";
+			}
+			if (char === "?") {
+				return ".";
+			}
+			return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`, "i").test(value);
+}
+
+/**
+ * Checks whether a setting key is a language override identifier, such as
+ * `[typescript]` or `[javascript][typescript]`.
+ */
+export function isOverrideIdentifier(key: string): boolean {
+	return /^(\[[^\]]+\])+$/.test(key);
+}
+
+/**
+ * Splits a flattened setting key into its language override identifier, if
+ * any, and the setting key within the override block.
+ *
+ * Example:
+ * `[typescript].editor.tabSize` => `{ override: "[typescript]", key: "editor.tabSize" }`
+ * `[javascript][typescript].editor.tabSize` => `{ override: "[javascript][typescript]", key: "editor.tabSize" }`
+ * `editor.tabSize` => `{ key: "editor.tabSize" }`
+ * @param key Flattened setting key.
+ */
+export function splitOverrideKey(key: string): {
+	override?: string;
+	key: string;
+} {
+	const match = key.match(/^((?:\[[^\]]+\])+)\.(.+)$/);
+	return match ? { override: match[1], key: match[2] } : { key };
+}
+
 /**
  * Recursively flattens settings into a single record that maps the setting key
  * to its value.
+ *
+ * Language override blocks (e.g. `"[typescript]": { ... }`) are flattened with
+ * their override identifier as a prefix (e.g. `[typescript].editor.tabSize`),
+ * so that the settings of each language are inherited separately.
+ *
+ * Settings whose value is an object (e.g. `files.exclude`) are not flattened,
+ * see `isSettingBoundary`. Call `loadSettingsSchema` beforehand so that the
+ * registered settings are known.
  * @param settings Settings to flatten.
  * @param parentKey Parent key from previous iteration.
  * @param result Flattened result to return.
@@ -93,8 +153,12 @@ export function flattenSettings(
 ): Record<string, unknown> {
 	for (const [key, value] of Object.entries(settings)) {
 		const newKey = parentKey ? `${parentKey}.${key}` : key;
-		if (value && typeof value === "object" && !Array.isArray(value)) {
-			flattenSettings(value as Record<string, unknown>, newKey, result);
+		if (
+			isPlainObject(value) &&
+			(isOverrideIdentifier(newKey) ||
+				!isSettingBoundary(splitOverrideKey(newKey).key, value))
+		) {
+			flattenSettings(value, newKey, result);
 		} else {
 			result[newKey] = value;
 		}
@@ -119,6 +183,114 @@ export function mergeFlattenedSettings(
 	return { ...target, ...source };
 }
 
+/**
+ * How the values a setting has in several profiles are combined.
+ *
+ * - `replace`: The closest profile's value wins.
+ * - `concat`: Arrays are concatenated, most distant profile first.
+ * - `union`: Arrays are concatenated without duplicates.
+ * - `deep-merge`: Objects are merged recursively, closer profiles winning.
+ */
+export type MergeStrategy = "replace" | "concat" | "union" | "deep-merge";
+
+/**
+ * Gets the merge strategy of a setting key.
+ *
+ * An exact key match takes priority over glob patterns; otherwise the first
+ * matching pattern is used. Settings within a language override block are
+ * matched both with and without their override identifier.
+ * @param key Flattened setting key.
+ * @param strategies Map of key (or glob pattern) to merge strategy.
+ * @returns Returns the merge strategy, `replace` if none matches.
+ */
+export function getMergeStrategy(
+	key: string,
+	strategies: Record<string, MergeStrategy>,
+): MergeStrategy {
+	const keys = [key, splitOverrideKey(key).key];
+	const exact = keys.find((k) => Object.hasOwn(strategies, k));
+	if (exact !== undefined) {
+		return strategies[exact];
+	}
+	for (const [pattern, strategy] of Object.entries(strategies)) {
+		if (keys.some((k) => matchesGlob(k, pattern))) {
+			return strategy;
+		}
+	}
+	return "replace";
+}
+
+/**
+ * Checks whether a value is a plain object (not an array or `null`).
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Recursively merges two objects. Keys from `source` override keys from
+ * `target`, except nested objects, which are merged.
+ */
+function deepMerge(
+	target: Record<string, unknown>,
+	source: Record<string, unknown>,
+): Record<string, unknown> {
+	const result: Record<string, unknown> = { ...target };
+	for (const [key, value] of Object.entries(source)) {
+		const existing = result[key];
+		result[key] =
+			isPlainObject(existing) && isPlainObject(value)
+				? deepMerge(existing, value)
+				: value;
+	}
+	return result;
+}
+
+/**
+ * Combines the values a setting has in several profiles.
+ *
+ * Values that cannot be combined with the given strategy (e.g. a string with a
+ * `concat` strategy) replace the previous ones.
+ * @param values Values of the setting, most distant profile first.
+ * @param strategy Merge strategy to use.
+ * @returns Returns the combined value.
+ */
+export function mergeSettingValues(
+	values: unknown[],
+	strategy: MergeStrategy,
+): unknown {
+	let result: unknown = values[0];
+	for (const value of values.slice(1)) {
+		if (strategy === "concat" || strategy === "union") {
+			result =
+				Array.isArray(result) && Array.isArray(value)
+					? result.concat(value)
+					: value;
+		} else if (strategy === "deep-merge") {
+			result =
+				isPlainObject(result) && isPlainObject(value)
+					? deepMerge(result, value)
+					: value;
+		} else {
+			result = value;
+		}
+	}
+
+	if (strategy === "union" && Array.isArray(result)) {
+		const seen = new Set<string>();
+		result = result.filter((item) => {
+			const id = JSON.stringify(item);
+			if (seen.has(id)) {
+				return false;
+			}
+			seen.add(id);
+			return true;
+		});
+	}
+
+	return result;
+}
+
 /**
  * Sorts a given set of `settings` alphabetically (A to Z).
  * @param settings Settings to sort alphabetically.
@@ -254,25 +426,60 @@ export async function readRawSettingsFile(
 }
 
 /**
- * Returns the `raw file in two parts:
- * 1. The content before the closing brace (excluding the closing brace).
- * 2. The content after and including the closing brace.
+ * Gets the name of a settings group from a header line of the form
+ * `// --- Name --- //`.
+ * @param line Line to check.
+ * @returns Returns the group name, or `null` if the line is not a header.
+ */
+export function getHeaderName(line: string): string | null {
+	const match = line.match(/^\s*\/\/ --- (.*?) --- \/\/\s*$/);
+	return match ? match[1] : null;
+}
+
+/**
+ * Checks whether a raw file has a `// --- Name (current) --- //` header, which
+ * syncs write before the profile's own entries (settings syncs only did so
+ * before settings were tracked). Files without it were never synced, so their
+ * `// --- Name --- //` headers are user comments, not inherited groups.
+ * @param raw Raw `settings.json` or `keybindings.json` file.
+ */
+export function hasCurrentProfileHeader(raw: string): boolean {
+	return raw
+		.split("\n")
+		.some((line) => getHeaderName(line)?.endsWith(" (current)") ?? false);
+}
+
+/**
+ * Removes the given settings groups (their header and everything up to the
+ * next header) from a raw `settings.json` file.
  *
+ * Content under any other header, or not under a header at all, is kept.
  * @param raw Raw `settings.json` file.
- * @returns Returns `raw` in two parts: before, and after the closing brace.
+ * @param groupNames Names of the groups to remove.
+ * @returns Returns `raw` without the given groups.
  */
-export function splitRawSettingsByClosingBrace(
+export function removeSettingsGroups(
 	raw: string,
-): [beforeClose: string, afterClose: string] {
-	// Split the file by the closing brace:
-	const closingIndex = raw.lastIndexOf("}");
-	if (closingIndex === -1) {
-		return ["{\n", "}\n"];
+	groupNames: string[],
+): string {
+	const lines = raw.split("\n");
+	const outputLines: string[] = [];
+	let skip = false;
+
+	for (const line of lines) {
+		const headerName = getHeaderName(line);
+		if (headerName !== null) {
+			// Unknown headers (user comments, unregistered parents) are kept:
+			skip = groupNames.includes(headerName);
+			if (!skip) {
+				outputLines.push(line);
+			}
+		} else if (!skip) {
+			outputLines.push(line);
+		}
 	}
 
-	const beforeClose = raw.slice(0, closingIndex);
-	const afterClose = raw.slice(closingIndex);
-	return [beforeClose, afterClose];
+	return outputLines.join("\n");
 }
 
 /**
@@ -306,120 +513,3 @@ export function findTabValue(raw: string): string {
 	// Fallback tab size:
 	return "    ";
 }
-
-/**
- * Inserts block before closing brace, handling commas and trailing comments.
- *
- * Does not remove or modify user comments.
- *
- * @returns Returns a string starting with the `beforeClose` block, followed by
- * the `block`. The returned string is formatted JSONC without the final closing
- * bracket.
- */
-export function insertBeforeClose(beforeClose: string, block: string): string {
-	// Check last non-comment character:
-	const meaningfulCharIndex = getLastMeaningfulCharacterIndex(beforeClose);
-	if (meaningfulCharIndex === -1) {
-		Logger.warn(
-			"No meaningful text found when attempting to insert `block` after `beforeClose`.",
-			"Utils",
-		);
-		return beforeClose.replace(/\s*$/, "\n") + block;
-	}
-	const meaningfulChar = beforeClose[meaningfulCharIndex];
-
-	// Calculate if we should insert a comma after the last meaningful character
-	// index:
-	const needsComma =
-		/\S/.test(beforeClose) && meaningfulChar !== "{" && meaningfulChar !== ",";
-
-	// Exit early if we do not need to insert a comma:
-	if (!needsComma) {
-		return beforeClose.replace(/\s*$/, "\n") + block;
-	}
-
-	// Insert a comma after the last meaningful character:
-	const before = beforeClose.slice(0, meaningfulCharIndex + 1);
-	const after = beforeClose.slice(meaningfulCharIndex + 1);
-
-	return `${before},${after.replace(/\s*$/, "\n")}${block}`;
-}
-
-/**
- * Finds the index of the last meaningful character in a JSONC (JSON with Comments) string.
- * A "meaningful" character is one that is not part of a single-line or multi-line comment,
- * and is not whitespace. Characters within strings are considered meaningful.
- *
- * @param text The JSONC content as a string.
- * @returns The zero-based index of the last meaningful character, or -1 if none is found.
- */
-export function getLastMeaningfulCharacterIndex(text: string): number {
-	let lastMeaningfulIndex = -1;
-	let inMultiLineComment = false;
-	let inString = false;
-	let stringChar = ""; // Can be ' or "
-
-	for (let i = 0; i < text.length; i++) {
-		const char = text[i];
-		const prevChar = text[i - 1];
-		const nextChar = text[i + 1];
-
-		// State 1: Inside a multi-line comment
-		if (inMultiLineComment) {
-			if (char === "*" && nextChar === "/") {
-				inMultiLineComment = false;
-				i++; // Consume the '/' as well
-			}
-			continue;
-		}
-
-		// State 2: Inside a string
-		if (inString) {
-			// Check for the closing quote, ensuring it's not escaped
-			if (char === stringChar && prevChar !== "\\") {
-				inString = false;
-			}
-			// All characters inside a string are considered meaningful for this function's purpose.
-			lastMeaningfulIndex = i;
-			continue;
-		}
-
-		// State 3: Default state (not in a comment or string)
-		// Check for the start of a single-line comment
-		if (char === "/" && nextChar === "/") {
-			// Find the next newline character
-			const newlineIndex = text.indexOf("\n", i);
-			if (newlineIndex === -1) {
-				// No more newlines, so the rest of the file is a comment.
-				// We can stop processing.
-				break;
-			}
-			// Jump execution to the newline character. The loop's i++ will move to the next line.
-			i = newlineIndex;
-			continue;
-		}
-
-		// Check for the start of a multi-line comment
-		if (char === "/" && nextChar === "*") {
-			inMultiLineComment = true;
-			i++; // Consume the '*' as well
-			continue;
-		}
-
-		// Check for the start of a string (handles both double and single quotes)
-		if (char === '"' || char === "'") {
-			inString = true;
-			stringChar = char;
-			lastMeaningfulIndex = i;
-			continue;
-		}
-
-		// If we've reached this point, we are in a "normal" code context.
-		// A character is meaningful if it's not whitespace.
-		if (!/\s/.test(char)) {
-			lastMeaningfulIndex = i;
-		}
-	}
-
-	return lastMeaningfulIndex;
-}
@@ -1,16 +1,86 @@
 import * as vscode from "vscode";
-import { syncExtensions } from "./lib/extensions.js";
+import { refreshInheritanceExplorer } from "./lib/explorer.js";
+import {
+	forgetInheritedExtensions,
+	getExtensionsToInstall,
+	syncExtensions,
+} from "./lib/extensions.js";
+import { reportHierarchy, resolveProfileHierarchy } from "./lib/hierarchy.js";
+import {
+	computeKeybindingsUpdate,
+	detachKeybindings,
+	syncKeybindings,
+} from "./lib/keybindings.js";
 import { Logger } from "./lib/logger.js";
+import { showPreviewDiff } from "./lib/preview.js";
 import { getCurrentProfileName } from "./lib/profileDiscovery.js";
+import { refreshProvenance } from "./lib/provenance.js";
 import { Reporter } from "./lib/reporter.js";
-import { syncSettings } from "./lib/settings.js";
+import {
+	computeDetachedSettings,
+	computeSettingsUpdate,
+	detachSettings,
+	syncSettings,
+} from "./lib/settings.js";
+import { detachSnippets, syncSnippets } from "./lib/snippets.js";
+
+/**
+ * Sync currently in progress, if any.
+ *
+ * Automatic triggers and the command can fire at the same time; sharing the
+ * pending sync prevents two of them from rewriting `settings.json` at once.
+ */
+let pendingSync: Promise<void> | undefined;
+
+/**
+ * Whether a sync was requested while another one was running.
+ *
+ * The running sync may have read the files before the change that triggered
+ * the request, so it is followed by one more sync.
+ */
+let syncRequested = false;
 
 /**
  * Updates the inherited settings for the current profile.
+ *
+ * If a sync is already running, this queues a single follow-up sync and waits
+ * for both instead of starting another one at once.
  * @param context Extension context.
  */
 export async function updateCurrentProfileInheritance(
 	context: vscode.ExtensionContext,
+): Promise<void> {
+	if (pendingSync) {
+		syncRequested = true;
+	} else {
+		pendingSync = applyRequestedInheritance(context).finally(() => {
+			pendingSync = undefined;
+			refreshInheritanceExplorer();
+			refreshProvenance();
+		});
+	}
+	await pendingSync;
+}
+
+/**
+ * Applies inheritance until no sync was requested while it was running.
+ * @param context Extension context.
+ */
+async function applyRequestedInheritance(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	do {
+		syncRequested = false;
+		await applyInheritance(context);
+	} while (syncRequested);
+}
+
+/**
+ * Applies inheritance from the configured parents to the current profile.
+ * @param context Extension context.
+ */
+async function applyInheritance(
+	context: vscode.ExtensionContext,
 ): Promise<void> {
 	Logger.initialize(context);
 	Logger.info("--------------- START ---------------");
@@ -19,10 +89,13 @@ export async function updateCurrentProfileInheritance(
 	const parents = config.get<string[]>("parents", []);
 
 	if (parents.length === 0) {
+		// Inheritance may have been stopped by clearing the parents, in which case
+		// the inherited content is still there:
 		Logger.info(
-			"No parent profiles configured. Skipping inheritance update",
+			"No parent profiles configured. Removing any inherited content",
 			"Main",
 		);
+		await removeInheritance(context);
 		Logger.info("--------------- END ---------------");
 		return;
 	}
@@ -35,14 +108,234 @@ export async function updateCurrentProfileInheritance(
 		"Main",
 	);
 
+	// Resolve the full ancestry (grand-parents, etc.) and report any issues:
+	const hierarchy = await resolveProfileHierarchy(
+		context,
+		currentProfileName,
+		parents,
+	);
+	reportHierarchy(hierarchy);
+	if (hierarchy.order.length > parents.length) {
+		Logger.info(`Resolved ancestors: ${hierarchy.order.join(", ")}`, "Main");
+	}
+
 	// Sync extensions
 	await syncExtensions(context);
 
 	// Sync settings
 	await syncSettings(context);
 
+	// Sync keybindings
+	await syncKeybindings(context);
+
+	// Sync snippets
+	await syncSnippets(context);
+
 	Logger.info("Profile inheritance update completed", "Main");
 	Logger.info("--------------- END ---------------");
 
 	await Reporter.showSummary(context);
+
+	if (config.get<boolean>("showMessages", false)) {
+		vscode.window.showInformationMessage(
+			`Inheritance applied to '${currentProfileName}' from ${parents.join(", ")}.`,
+		);
+	}
+}
+
+/**
+ * Removes everything inheritance wrote to the current profile: settings,
+ * keybindings and snippets. Inherited extensions stay installed.
+ * @param context Extension context.
+ * @param keep Flattened keys of the inherited settings to keep as local
+ * settings.
+ * @returns Returns `false` if the settings could not be removed.
+ */
+async function removeInheritance(
+	context: vscode.ExtensionContext,
+	keep: string[] = [],
+): Promise<boolean> {
+	const removed = await detachSettings(context, keep);
+	await detachKeybindings(context);
+	await detachSnippets(context);
+	return removed;
+}
+
+/**
+ * Detaches the current profile from its parents: clears
+ * `inheritProfile.parents` and removes everything inheritance wrote to the
+ * profile.
+ *
+ * The user picks the inherited settings to "bake" into the profile first;
+ * those are kept as local settings. Inherited extensions stay installed, and
+ * are no longer uninstalled when a parent removes them.
+ * @param context Extension context.
+ */
+export async function detachCurrentProfile(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	Logger.initialize(context);
+	// Do not detach while a sync is writing the same files:
+	await pendingSync;
+
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	const parents = config.get<string[]>("parents", []);
+	const currentProfileName = await getCurrentProfileName(context);
+	const detached = await computeDetachedSettings(context);
+	if (!detached) {
+		vscode.window.showErrorMessage(
+			`Unable to find the settings of the '${currentProfileName}' profile.`,
+		);
+		return;
+	}
+	if (parents.length === 0 && detached.inherited.length === 0) {
+		vscode.window.showInformationMessage(
+			`Profile '${currentProfileName}' does not inherit from any profile.`,
+		);
+		return;
+	}
+
+	let keep: string[] = [];
+	if (detached.inherited.length > 0) {
+		const picked = await vscode.window.showQuickPick(
+			detached.inherited.map(({ key, value, source }) => ({
+				label: key,
+				description: source ? `from ${source}` : undefined,
+				detail: JSON.stringify(value),
+			})),
+			{
+				canPickMany: true,
+				placeHolder:
+					"Select the inherited settings to keep as local settings, the others will be removed",
+			},
+		);
+		if (!picked) {
+			return;
+		}
+		keep = picked.map((item) => item.label);
+	}
+
+	const choice = await vscode.window.showWarningMessage(
+		`Detach '${currentProfileName}' from its parents? ${detached.inherited.length - keep.length} inherited settings will be removed and ${keep.length} kept as local settings. Inherited keybindings and snippets will be removed, and inherited extensions will stay installed.`,
+		{ modal: true },
+		"Detach",
+	);
+	if (choice !== "Detach") {
+		return;
+	}
+
+	Logger.info(
+		`Detaching profile '${currentProfileName}' from its parents`,
+		"Main",
+	);
+	// Cleared first: VS Code rewrites settings.json to remove it.
+	await config.update("parents", undefined, vscode.ConfigurationTarget.Global);
+	if (!(await removeInheritance(context, keep))) {
+		return;
+	}
+	await forgetInheritedExtensions(context, currentProfileName);
+	refreshInheritanceExplorer();
+
+	vscode.window.showInformationMessage(
+		`Profile '${currentProfileName}' was detached from its parents.`,
+	);
+}
+
+/**
+ * Previews the changes inheritance would make to the current profile, and lets
+ * the user apply or cancel them.
+ *
+ * The would-be `settings.json` is opened in a diff editor against the current
+ * file, and the extensions that would be installed are listed.
+ * @param context Extension context.
+ */
+export async function previewCurrentProfileInheritance(
+	context: vscode.ExtensionContext,
+): Promise<void> {
+	Logger.initialize(context);
+
+	const config = vscode.workspace.getConfiguration("inheritProfile");
+	const parents = config.get<string[]>("parents", []);
+	if (parents.length === 0) {
+		vscode.window.showInformationMessage(
+			"No parent profiles configured. Nothing to preview.",
+		);
+		return;
+	}
+
+	const currentProfileName = await getCurrentProfileName(context);
+	const [update, keybindingsUpdate, extensions] = await Promise.all([
+		computeSettingsUpdate(context),
+		config.get<boolean>("keybindings", true)
+			? computeKeybindingsUpdate(context)
+			: undefined,
+		getExtensionsToInstall(context),
+	]);
+	if (!update) {
+		vscode.window.showErrorMessage(
+			`Unable to find the settings of the '${currentProfileName}' profile.`,
+		);
+		return;
+	}
+
+	const settingsChanged = update.original !== update.updated;
+	if (settingsChanged) {
+		await showPreviewDiff(
+			vscode.Uri.file(update.settingsPath),
+			update.updated,
+			`${currentProfileName} settings.json (inheritance preview)`,
+		);
+	}
+
+	const keybindingsChanged =
+		keybindingsUpdate !== undefined &&
+		keybindingsUpdate.original !== keybindingsUpdate.updated;
+	// NOTE: A diff cannot be shown for a keybindings file that does not exist yet.
+	if (keybindingsChanged && keybindingsUpdate.original) {
+		await showPreviewDiff(
+			vscode.Uri.file(keybindingsUpdate.keybindingsPath),
+			keybindingsUpdate.updated,
+			`${currentProfileName} keybindings.json (inheritance preview)`,
+		);
+	}
+
+	if (!settingsChanged && !keybindingsChanged && extensions.size === 0) {
+		vscode.window.showInformationMessage(
+			`Profile '${currentProfileName}' is already up to date.`,
+		);
+		return;
+	}
+
+	const parts: string[] = [];
+	if (update.problems.length > 0) {
+		parts.push(
+			`settings.json would be invalid and will not be written (${update.problems.join("; ")})`,
+		);
+	} else {
+		parts.push(
+			settingsChanged ? "settings.json will change" : "no settings changes",
+		);
+	}
+	if (keybindingsChanged) {
+		parts.push(
+			keybindingsUpdate.original
+				? "keybindings.json will change"
+				: "keybindings.json will be created",
+		);
+	}
+	if (extensions.size > 0) {
+		const list = [...extensions]
+			.map(([id, source]) => `${id} (from ${source})`)
+			.join(", ");
+		parts.push(`${extensions.size} extensions will be installed: ${list}`);
+	}
+
+	const choice = await vscode.window.showInformationMessage(
+		`Inheritance preview for '${currentProfileName}': ${parts.join("; ")}.`,
+		"Apply",
+		"Cancel",
+	);
+	if (choice === "Apply") {
+		await updateCurrentProfileInheritance(context);
+	}
 }
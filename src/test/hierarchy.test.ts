@@ -0,0 +1,103 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { resolveProfileHierarchy } from "../lib/hierarchy.js";
+
+/**
+ * Parents declared by each profile of the test user directory.
+ */
+const PROFILES: Record<string, string[]> = {
+	Base: [],
+	Web: ["Base"],
+	Python: ["Base"],
+	Loop1: ["Loop2"],
+	Loop2: ["Loop1"],
+	Child: [],
+};
+
+suite("Profile hierarchy", () => {
+	let userDirectory: string;
+	let context: vscode.ExtensionContext;
+
+	suiteSetup(async () => {
+		// Mimic the layout of the VS Code user directory:
+		userDirectory = await fs.mkdtemp(
+			path.join(os.tmpdir(), "inherit-profile-"),
+		);
+		const globalStorage = path.join(userDirectory, "globalStorage");
+		await fs.mkdir(globalStorage);
+		await fs.writeFile(
+			path.join(globalStorage, "storage.json"),
+			JSON.stringify({
+				userDataProfiles: Object.keys(PROFILES).map((name) => ({
+					name,
+					location: name.toLowerCase(),
+				})),
+			}),
+		);
+		for (const [name, parents] of Object.entries(PROFILES)) {
+			const profilePath = path.join(
+				userDirectory,
+				"profiles",
+				name.toLowerCase(),
+			);
+			await fs.mkdir(profilePath, { recursive: true });
+			// Header comments named after a profile are not inherited groups in
+			// files that were never synced:
+			await fs.writeFile(
+				path.join(profilePath, "settings.json"),
+				`{\n\t// --- Base --- //\n\t"inheritProfile.parents": ${JSON.stringify(parents)}\n}\n`,
+			);
+		}
+
+		context = {
+			globalStorageUri: vscode.Uri.file(
+				path.join(globalStorage, "publisher.inherit-profile"),
+			),
+		} as vscode.ExtensionContext;
+	});
+
+	suiteTeardown(async () => {
+		await fs.rm(userDirectory, { recursive: true, force: true });
+	});
+
+	test("Places every ancestor once, before its children", async () => {
+		const hierarchy = await resolveProfileHierarchy(context, "Child", [
+			"Web",
+			"Python",
+		]);
+
+		assert.deepStrictEqual(hierarchy.order, ["Base", "Web", "Python"]);
+		assert.deepStrictEqual(hierarchy.parentsOf.get("Python"), ["Base"]);
+		assert.deepStrictEqual(hierarchy.cycles, []);
+		assert.deepStrictEqual(hierarchy.missing, []);
+	});
+
+	test("Collects cycles instead of following them", async () => {
+		const hierarchy = await resolveProfileHierarchy(context, "Child", [
+			"Loop1",
+		]);
+
+		assert.deepStrictEqual(hierarchy.order, ["Loop2", "Loop1"]);
+		assert.deepStrictEqual(hierarchy.cycles, [["Loop1", "Loop2", "Loop1"]]);
+	});
+
+	test("Collects profiles inheriting from themselves", async () => {
+		const hierarchy = await resolveProfileHierarchy(context, "Web", ["Web"]);
+
+		assert.deepStrictEqual(hierarchy.order, []);
+		assert.deepStrictEqual(hierarchy.cycles, [["Web", "Web"]]);
+	});
+
+	test("Collects missing ancestors", async () => {
+		const hierarchy = await resolveProfileHierarchy(context, "Child", [
+			"Missing",
+			"Web",
+		]);
+
+		assert.deepStrictEqual(hierarchy.order, ["Base", "Web"]);
+		assert.deepStrictEqual(hierarchy.missing, ["Missing"]);
+	});
+});
@@ -0,0 +1,114 @@
+import * as assert from "node:assert";
+import { parse } from "jsonc-parser";
+import {
+	addInheritedKeybindings,
+	type KeybindingsTracking,
+	removeInheritedKeybindings,
+} from "../lib/keybindings.js";
+
+const base = {
+	name: "Base",
+	keybindings: [
+		{ key: "ctrl+a", command: "base.a" },
+		{ key: "ctrl+b", command: "base.b", when: "editorFocus" },
+	],
+};
+
+suite("Inherited keybindings", () => {
+	test("Adds inherited keybindings to a profile without keybindings", () => {
+		const updated = addInheritedKeybindings("", [base], "Work");
+
+		assert.deepStrictEqual(parse(updated), base.keybindings);
+		assert.ok(updated.includes("// --- Base --- //"));
+		assert.ok(updated.includes("// --- Work (current) --- //"));
+		assert.deepStrictEqual(
+			parse(removeInheritedKeybindings(updated, { groups: [base] })),
+			[],
+		);
+	});
+
+	test("Adds inherited keybindings before the local keybindings", () => {
+		const raw =
+			'// Local keybindings\n[\n\t{ "key": "ctrl+c", "command": "local.c" }\n]\n';
+		const groups = [
+			base,
+			{ name: "Web", keybindings: [{ key: "ctrl+w", command: "w" }] },
+		];
+		const updated = addInheritedKeybindings(raw, groups, "Work");
+
+		assert.deepStrictEqual(parse(updated), [
+			...base.keybindings,
+			{ key: "ctrl+w", command: "w" },
+			{ key: "ctrl+c", command: "local.c" },
+		]);
+		assert.ok(updated.startsWith("// Local keybindings\n["));
+
+		// The next sync finds the local keybindings under the current header:
+		const cleaned = removeInheritedKeybindings(updated, { groups });
+		assert.deepStrictEqual(parse(cleaned), [
+			{ key: "ctrl+c", command: "local.c" },
+		]);
+		assert.strictEqual(
+			addInheritedKeybindings(cleaned, [base], "Work"),
+			addInheritedKeybindings(raw, [base], "Work"),
+		);
+	});
+
+	test("Only adds the current header when there is nothing to inherit", () => {
+		const raw = '[\n\t{ "key": "ctrl+c", "command": "local.c" }\n]\n';
+		const updated = addInheritedKeybindings(raw, [], "Work");
+
+		assert.deepStrictEqual(parse(updated), parse(raw));
+		assert.ok(updated.includes("// --- Work (current) --- //"));
+	});
+
+	test("Keeps user comments named after profiles across syncs", () => {
+		const raw = [
+			"[",
+			"\t// --- Default --- //",
+			'\t{ "key": "ctrl+d", "command": "local.d" }',
+			"]",
+			"",
+		].join("\n");
+
+		let updated = raw;
+		let tracking: KeybindingsTracking | undefined;
+		for (let sync = 0; sync < 2; sync++) {
+			updated = addInheritedKeybindings(
+				removeInheritedKeybindings(updated, tracking),
+				[base],
+				"Work",
+			);
+			tracking = JSON.parse(JSON.stringify({ groups: [base] }));
+		}
+
+		assert.deepStrictEqual(parse(updated), [
+			...base.keybindings,
+			{ key: "ctrl+d", command: "local.d" },
+		]);
+		assert.deepStrictEqual(
+			parse(removeInheritedKeybindings(updated, tracking)),
+			parse(raw),
+		);
+	});
+
+	test("Removes the groups of renamed or deleted parents", () => {
+		const updated = addInheritedKeybindings("", [base], "Work");
+
+		// "Base" is no longer a known profile, its group was still written:
+		assert.strictEqual(
+			removeInheritedKeybindings(updated, { groups: [base] }).includes("Base"),
+			false,
+		);
+	});
+
+	test("Ignores headers above the keybindings", () => {
+		const raw =
+			'// --- Base --- //\n[\n\t{ "key": "ctrl+a", "command": "base.a" }\n]\n';
+
+		assert.strictEqual(
+			removeInheritedKeybindings(raw, { groups: [base] }),
+			raw,
+		);
+	});
+});
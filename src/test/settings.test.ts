@@ -0,0 +1,216 @@
+import * as assert from "node:assert";
+import { parse } from "jsonc-parser";
+import {
+	addInheritedSettings,
+	removeInheritedSettings,
+	validateSettingsContent,
+} from "../lib/settings.js";
+import {
+	editJSONC,
+	removeTrackedSettings,
+	type SettingsTracking,
+} from "../lib/settingsTracking.js";
+
+/**
+ * Builds a group of inherited settings.
+ */
+function group(name: string, settings: Record<string, unknown>) {
+	return { name, settings: settings as Record<string, string> };
+}
+
+/**
+ * Round-trips tracking through JSON, the way it is stored on disk.
+ */
+function store(tracking: SettingsTracking): SettingsTracking {
+	return JSON.parse(JSON.stringify(tracking));
+}
+
+suite("Inherited settings", () => {
+	test("Adds and removes inherited settings", () => {
+		const raw = '{\n\t"editor.fontSize": 14\n}\n';
+		const { updated, tracking } = addInheritedSettings(raw, [
+			group("Base", { "editor.tabSize": 2, "editor.fontSize": 12 }),
+		]);
+
+		// Local settings take priority over inherited ones:
+		assert.deepStrictEqual(parse(updated), {
+			"editor.fontSize": 14,
+			"editor.tabSize": 2,
+		});
+		assert.deepStrictEqual(tracking.settings, [
+			{ path: ["editor.tabSize"], value: 2, source: "Base" },
+		]);
+
+		assert.deepStrictEqual(
+			parse(removeTrackedSettings(updated, store(tracking))),
+			parse(raw),
+		);
+	});
+
+	test("Keeps inherited settings changed by the user", () => {
+		const { updated, tracking } = addInheritedSettings("{\n}\n", [
+			group("Base", { "editor.tabSize": 2, "editor.wordWrap": "on" }),
+		]);
+		const edited = editJSONC(updated, ["editor.tabSize"], 8);
+
+		assert.deepStrictEqual(
+			parse(removeTrackedSettings(edited, store(tracking))),
+			{ "editor.tabSize": 8 },
+		);
+	});
+
+	test("Creates and removes language override blocks", () => {
+		const raw = '{\n\t"editor.tabSize": 2\n}\n';
+		const { updated, tracking } = addInheritedSettings(raw, [
+			group("Python", { "[python].editor.tabSize": 4 }),
+		]);
+
+		assert.deepStrictEqual(parse(updated), {
+			"editor.tabSize": 2,
+			"[python]": { "editor.tabSize": 4 },
+		});
+		assert.deepStrictEqual(tracking.blocks, ["[python]"]);
+		assert.deepStrictEqual(
+			parse(removeTrackedSettings(updated, store(tracking))),
+			parse(raw),
+		);
+	});
+
+	test("Keeps existing language override blocks", () => {
+		const raw = '{\n\t"[python]": {\n\t\t"editor.insertSpaces": true\n\t}\n}\n';
+		const { updated, tracking } = addInheritedSettings(raw, [
+			group("Python", { "[python].editor.tabSize": 4 }),
+		]);
+
+		assert.deepStrictEqual(parse(updated), {
+			"[python]": { "editor.insertSpaces": true, "editor.tabSize": 4 },
+		});
+		assert.deepStrictEqual(tracking.blocks, []);
+		assert.deepStrictEqual(
+			parse(removeTrackedSettings(updated, store(tracking))),
+			parse(raw),
+		);
+	});
+
+	test("Writes combined values over the local value and restores it", () => {
+		const raw = '{\n\t"cSpell.words": ["local"]\n}\n';
+		const combined = group("Base", { "cSpell.words": ["base", "local"] });
+
+		// Without a merge strategy the local value wins:
+		assert.deepStrictEqual(
+			parse(addInheritedSettings(raw, [combined]).updated),
+			parse(raw),
+		);
+
+		const { updated, tracking } = addInheritedSettings(
+			raw,
+			[combined],
+			["cSpell.words"],
+		);
+		assert.deepStrictEqual(parse(updated), {
+			"cSpell.words": ["base", "local"],
+		});
+
+		// The next sync combines the restored local value again:
+		const cleaned = removeTrackedSettings(updated, store(tracking));
+		assert.deepStrictEqual(parse(cleaned), parse(raw));
+		assert.strictEqual(
+			addInheritedSettings(cleaned, [combined], ["cSpell.words"]).updated,
+			updated,
+		);
+	});
+});
+
+suite("Legacy inherited settings", () => {
+	test("Keeps header comments of profiles that were never synced", () => {
+		const raw = [
+			"{",
+			"\t// --- Python --- //",
+			'\t"python.analysis.typeCheckingMode": "strict"',
+			"}",
+		].join("\n");
+
+		assert.strictEqual(
+			removeInheritedSettings(raw, undefined, ["Default", "Python"]),
+			raw,
+		);
+	});
+
+	test("Removes the groups of known profiles only", () => {
+		const raw = [
+			"{",
+			"\t// --- Work (current) --- //",
+			'\t"editor.fontSize": 14,',
+			"\t// --- Notes --- //",
+			'\t"editor.wordWrap": "on",',
+			"\t// --- Base --- //",
+			'\t"editor.tabSize": 2',
+			"}",
+		].join("\n");
+
+		assert.deepStrictEqual(
+			parse(removeInheritedSettings(raw, undefined, ["Base", "Work"])),
+			{ "editor.fontSize": 14, "editor.wordWrap": "on" },
+		);
+	});
+
+	test("Removes the legacy marker block", () => {
+		const raw = [
+			"{",
+			'\t"editor.fontSize": 14,',
+			"\t// --- INHERITED SETTINGS MARKER START --- //",
+			'\t"editor.tabSize": 2',
+			"\t// --- INHERITED SETTINGS MARKER END --- //",
+			"}",
+		].join("\n");
+
+		assert.deepStrictEqual(parse(removeInheritedSettings(raw, undefined, [])), {
+			"editor.fontSize": 14,
+		});
+	});
+
+	test("Ignores legacy groups once settings are tracked", () => {
+		const raw = [
+			"{",
+			"\t// --- Work (current) --- //",
+			"\t// --- Base --- //",
+			'\t"editor.tabSize": 2',
+			"}",
+		].join("\n");
+
+		assert.strictEqual(
+			removeInheritedSettings(raw, { settings: [], blocks: [] }, ["Base"]),
+			raw,
+		);
+	});
+});
+
+suite("Settings validation", () => {
+	test("Accepts valid settings", () => {
+		assert.deepStrictEqual(
+			validateSettingsContent('{\n\t"a": 1, // Comment\n\t"b": 2,\n}', [
+				"a",
+				"b",
+			]),
+			[],
+		);
+	});
+
+	test("Reports parse errors with their location", () => {
+		const [problem] = validateSettingsContent('{\n\t"a": 1\n\t"b": 2\n}', []);
+		assert.match(problem, /line 3, column 2$/);
+	});
+
+	test("Reports missing settings", () => {
+		assert.deepStrictEqual(
+			validateSettingsContent('{\n\t"a": 1\n}', ["a", "b", "c", "b"]),
+			["Missing settings: b, c"],
+		);
+	});
+
+	test("Rejects settings that are not an object", () => {
+		assert.deepStrictEqual(validateSettingsContent("[]", []), [
+			"The settings are not a JSON object",
+		]);
+	});
+});
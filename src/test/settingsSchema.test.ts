@@ -0,0 +1,17 @@
+import * as assert from "node:assert";
+import { isSettingBoundary } from "../lib/settingsSchema.js";
+
+suite("Setting boundaries", () => {
+	test("Flattens unknown sections", () => {
+		assert.ok(!isSettingBoundary("myExtension.section", { enabled: true }));
+	});
+
+	test("Keeps empty values whole", () => {
+		assert.ok(isSettingBoundary("myExtension.map", {}));
+	});
+
+	test("Keeps values whose keys cannot be settings whole", () => {
+		assert.ok(isSettingBoundary("myExtension.exclude", { "**/.git": true }));
+		assert.ok(isSettingBoundary("myExtension.associations", { "*.x": "y" }));
+	});
+});
@@ -0,0 +1,137 @@
+import * as assert from "node:assert";
+import {
+	getMergeStrategy,
+	hasCurrentProfileHeader,
+	matchesGlob,
+	mergeSettingValues,
+	removeSettingsGroups,
+} from "../lib/utils.js";
+
+suite("Merge strategies", () => {
+	test("Replaces values by default", () => {
+		assert.deepStrictEqual(mergeSettingValues([["a"], ["b"]], "replace"), [
+			"b",
+		]);
+	});
+
+	test("Concatenates arrays, most distant first", () => {
+		assert.deepStrictEqual(
+			mergeSettingValues([["a", "b"], ["b"], ["c"]], "concat"),
+			["a", "b", "b", "c"],
+		);
+	});
+
+	test("Concatenates arrays without duplicates", () => {
+		assert.deepStrictEqual(
+			mergeSettingValues(
+				[
+					[{ id: 1 }, "a"],
+					["a", { id: 1 }, "b"],
+				],
+				"union",
+			),
+			[{ id: 1 }, "a", "b"],
+		);
+	});
+
+	test("Merges objects recursively, closest first", () => {
+		assert.deepStrictEqual(
+			mergeSettingValues(
+				[
+					{ a: 1, nested: { b: 1, c: 1 } },
+					{ nested: { c: 2 }, d: [1] },
+				],
+				"deep-merge",
+			),
+			{ a: 1, nested: { b: 1, c: 2 }, d: [1] },
+		);
+	});
+
+	test("Replaces values that cannot be combined", () => {
+		assert.strictEqual(mergeSettingValues([["a"], "b"], "concat"), "b");
+		assert.deepStrictEqual(
+			mergeSettingValues([{ a: 1 }, [1]], "deep-merge"),
+			[1],
+		);
+	});
+
+	test("Gets the strategy of exact keys before patterns", () => {
+		const strategies = {
+			"files.*": "deep-merge",
+			"files.associations": "replace",
+			"cSpell.words": "union",
+		} as const;
+		assert.strictEqual(
+			getMergeStrategy("files.associations", strategies),
+			"replace",
+		);
+		assert.strictEqual(
+			getMergeStrategy("files.exclude", strategies),
+			"deep-merge",
+		);
+		assert.strictEqual(
+			getMergeStrategy("[markdown].cSpell.words", strategies),
+			"union",
+		);
+		assert.strictEqual(
+			getMergeStrategy("editor.rulers", strategies),
+			"replace",
+		);
+	});
+});
+
+suite("Glob patterns", () => {
+	test("Matches any sequence of characters with *", () => {
+		assert.ok(matchesGlob("editor.fontSize", "editor.*"));
+		assert.ok(matchesGlob("editor.minimap.enabled", "editor.*"));
+		assert.ok(matchesGlob("[python].editor.tabSize", "*.tabSize"));
+		assert.ok(!matchesGlob("workbench.colorTheme", "editor.*"));
+	});
+
+	test("Matches a single character with ?", () => {
+		assert.ok(matchesGlob("a.b", "a.?"));
+		assert.ok(!matchesGlob("a.bc", "a.?"));
+	});
+
+	test("Matches other characters literally, ignoring case", () => {
+		assert.ok(matchesGlob("Editor.FontSize", "editor.fontsize"));
+		assert.ok(!matchesGlob("editorXfontSize", "editor.fontSize"));
+		assert.ok(matchesGlob("[python].x", "[python].*"));
+	});
+});
+
+suite("Settings groups", () => {
+	const raw = [
+		"[",
+		"\t// --- Base --- //",
+		'\t{ "key": "ctrl+a", "command": "a" },',
+		"\t// --- Notes --- //",
+		'\t{ "key": "ctrl+b", "command": "b" },',
+		"\t// --- Work (current) --- //",
+		'\t{ "key": "ctrl+c", "command": "c" }',
+		"]",
+	].join("\n");
+
+	test("Removes the given groups only", () => {
+		assert.strictEqual(
+			removeSettingsGroups(raw, ["Base"]),
+			[
+				"[",
+				"\t// --- Notes --- //",
+				'\t{ "key": "ctrl+b", "command": "b" },',
+				"\t// --- Work (current) --- //",
+				'\t{ "key": "ctrl+c", "command": "c" }',
+				"]",
+			].join("\n"),
+		);
+	});
+
+	test("Detects files that were synced", () => {
+		assert.ok(hasCurrentProfileHeader(raw));
+		assert.ok(
+			!hasCurrentProfileHeader(
+				'{\n\t// --- Python --- //\n\t"python.languageServer": "Pylance"\n}',
+			),
+		);
+	});
+});